@@ -0,0 +1,515 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { type FieldPath, useForm } from "react-hook-form"
+import { AlertCircle, Book, Eye, Film, KeyRound, Loader2, Music, RefreshCw, Save } from "lucide-react"
+
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+
+type Emotion = "happy" | "sad" | "angry" | "surprised" | "neutral" | "disgust" | "fear"
+
+const EMOTIONS: Emotion[] = ["happy", "sad", "angry", "surprised", "neutral", "disgust", "fear"]
+
+type AudioFeature = "valence" | "energy" | "danceability" | "acousticness" | "instrumentalness" | "speechiness" | "loudness" | "popularity"
+
+// Mirrors config/emotion-mappings.json; the server validates, so this only needs the shape
+interface EmotionMapping {
+  movies: string[]
+  songs: {
+    queries: string[]
+    genres: string[]
+    audioFeatures: { [key in AudioFeature]?: number }
+  }
+  books: string[]
+}
+
+interface MappingIssue {
+  path: string
+  message: string
+}
+
+interface PreviewItem {
+  title: string
+  detail: string
+  link?: string
+}
+
+interface PreviewResults {
+  movies: PreviewItem[]
+  music: PreviewItem[]
+  books: PreviewItem[]
+}
+
+interface Preview {
+  current: PreviewResults
+  draft: PreviewResults
+  omdb_configured: boolean
+  spotify_available: boolean
+}
+
+// Search lists are edited one term per line; audio features as text so a blank means "unset"
+interface MappingFormValues {
+  movies: string
+  songQueries: string
+  genres: string
+  books: string
+  audioFeatures: { [key in AudioFeature]: string }
+}
+
+const audioFeatureFields: { key: AudioFeature; label: string; hint: string }[] = [
+  { key: "valence", label: "Valence", hint: "0..1, required" },
+  { key: "energy", label: "Energy", hint: "0..1, required" },
+  { key: "danceability", label: "Danceability", hint: "0..1" },
+  { key: "acousticness", label: "Acousticness", hint: "0..1" },
+  { key: "instrumentalness", label: "Instrumentalness", hint: "0..1" },
+  { key: "speechiness", label: "Speechiness", hint: "0..1" },
+  { key: "loudness", label: "Loudness", hint: "dB, -60..0" },
+  { key: "popularity", label: "Popularity", hint: "0..100" },
+]
+
+const previewSections: { key: keyof PreviewResults; label: string; icon: typeof Film }[] = [
+  { key: "movies", label: "Movies", icon: Film },
+  { key: "music", label: "Music", icon: Music },
+  { key: "books", label: "Books", icon: Book },
+]
+
+// Rows shown per content type; enough to judge a change without scrolling forever
+const PREVIEW_ROWS = 8
+
+const TOKEN_STORAGE_KEY = "moodify-admin-token"
+
+function toFormValues(mapping: EmotionMapping): MappingFormValues {
+  const audioFeatures = {} as MappingFormValues["audioFeatures"]
+  for (const { key } of audioFeatureFields) {
+    const value = mapping.songs.audioFeatures[key]
+    audioFeatures[key] = value === undefined ? "" : String(value)
+  }
+
+  return {
+    movies: mapping.movies.join("\n"),
+    songQueries: mapping.songs.queries.join("\n"),
+    genres: mapping.songs.genres.join("\n"),
+    books: mapping.books.join("\n"),
+    audioFeatures,
+  }
+}
+
+function toMapping(values: MappingFormValues): EmotionMapping {
+  const lines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean)
+  const audioFeatures: EmotionMapping["songs"]["audioFeatures"] = {}
+  for (const { key } of audioFeatureFields) {
+    const value = values.audioFeatures[key].trim()
+    // Non-numbers become NaN, sent as null, so the server reports them against the field
+    if (value !== "") audioFeatures[key] = Number(value)
+  }
+
+  return {
+    movies: lines(values.movies),
+    songs: { queries: lines(values.songQueries), genres: lines(values.genres), audioFeatures },
+    books: lines(values.books),
+  }
+}
+
+// Server issue paths are into the mapping ("songs.genres.2"); the form is flatter
+function formFieldFor(path: string): FieldPath<MappingFormValues> | null {
+  const [section, field, feature] = path.split(".")
+  if (section === "movies" || section === "books") return section
+  if (section === "songs" && field === "queries") return "songQueries"
+  if (section === "songs" && field === "genres") return "genres"
+  if (section === "songs" && field === "audioFeatures" && audioFeatureFields.some(({ key }) => key === feature)) {
+    return `audioFeatures.${feature as AudioFeature}`
+  }
+  return null
+}
+
+function PreviewTable({ label, icon: Icon, current, draft }: {
+  label: string
+  icon: typeof Film
+  current: PreviewItem[]
+  draft: PreviewItem[]
+}) {
+  const currentTitles = new Set(current.map((item) => item.title))
+  const rows = Math.min(PREVIEW_ROWS, Math.max(current.length, draft.length))
+
+  const cell = (item: PreviewItem | undefined, isNew: boolean) => item ? (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        {item.link ? (
+          <a href={item.link} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+            {item.title}
+          </a>
+        ) : (
+          <span className="font-medium">{item.title}</span>
+        )}
+        {isNew && <Badge variant="secondary">new</Badge>}
+      </div>
+      {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+    </div>
+  ) : null
+
+  return (
+    <div className="space-y-2">
+      <h3 className="flex items-center gap-2 font-semibold">
+        <Icon className="w-4 h-4" />
+        {label}
+      </h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-1/2">Saved mapping ({current.length})</TableHead>
+            <TableHead className="w-1/2">Draft ({draft.length})</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows === 0 ? (
+            <TableRow>
+              <TableCell colSpan={2} className="text-center text-muted-foreground">
+                No results from either mapping
+              </TableCell>
+            </TableRow>
+          ) : (
+            Array.from({ length: rows }, (_, index) => (
+              <TableRow key={index}>
+                <TableCell className="align-top">{cell(current[index], false)}</TableCell>
+                <TableCell className="align-top">
+                  {cell(draft[index], !!draft[index] && !currentTitles.has(draft[index].title))}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+export default function MappingEditorPage() {
+  const [token, setToken] = useState("")
+  // Read at request time, so typing a token doesn't refetch (and reset the form) on every keystroke
+  const tokenRef = useRef("")
+  const [mappings, setMappings] = useState<{ [key in Emotion]: EmotionMapping } | null>(null)
+  const [mappingsPath, setMappingsPath] = useState<string | null>(null)
+  const [emotion, setEmotion] = useState<Emotion>("happy")
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const form = useForm<MappingFormValues>()
+
+  const adminFetch = useCallback((url: string, init: RequestInit = {}) => fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(tokenRef.current && { Authorization: `Bearer ${tokenRef.current}` }),
+    },
+  }), [])
+
+  const loadMappings = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await adminFetch("/api/admin/emotion-mappings")
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || "Could not load emotion mappings")
+        return
+      }
+      setMappings(result.mappings)
+      setMappingsPath(result.path)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Could not load emotion mappings")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [adminFetch])
+
+  useEffect(() => {
+    tokenRef.current = sessionStorage.getItem(TOKEN_STORAGE_KEY) || ""
+    setToken(tokenRef.current)
+    loadMappings()
+  }, [loadMappings])
+
+  // Start the form from the saved entry whenever the emotion or the saved file changes
+  useEffect(() => {
+    if (mappings) {
+      form.reset(toFormValues(mappings[emotion]))
+      setPreview(null)
+    }
+  }, [mappings, emotion, form])
+
+  const changeEmotion = (next: Emotion) => {
+    if (form.formState.isDirty && !window.confirm(`Discard unsaved changes to the ${emotion} mapping?`)) return
+    setNotice(null)
+    setEmotion(next)
+  }
+
+  const saveToken = (value: string) => {
+    tokenRef.current = value
+    setToken(value)
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, value)
+  }
+
+  const reload = () => {
+    if (form.formState.isDirty && !window.confirm(`Discard unsaved changes to the ${emotion} mapping?`)) return
+    setNotice(null)
+    loadMappings()
+  }
+
+  // Field-level issues go under their inputs; anything else (or a failed request) goes in the alert
+  const showIssues = (result: { error?: string; issues?: MappingIssue[] }) => {
+    let unplaced = false
+    for (const issue of result.issues || []) {
+      const field = formFieldFor(issue.path)
+      if (field) {
+        form.setError(field, { message: issue.message })
+      } else {
+        unplaced = true
+      }
+    }
+    if (unplaced || !result.issues?.length) {
+      setError(result.error || "The mapping is invalid")
+    }
+  }
+
+  const runPreview = async () => {
+    setIsPreviewing(true)
+    setError(null)
+    form.clearErrors()
+
+    try {
+      const response = await adminFetch("/api/admin/emotion-mappings/preview", {
+        method: "POST",
+        body: JSON.stringify({ emotion, mapping: toMapping(form.getValues()) }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        showIssues(result)
+        return
+      }
+      setPreview(result)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Preview failed")
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const save = async (values: MappingFormValues) => {
+    setIsSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const response = await adminFetch("/api/admin/emotion-mappings", {
+        method: "PUT",
+        body: JSON.stringify({ emotion, mapping: toMapping(values) }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        showIssues(result)
+        return
+      }
+      setMappings(result.mappings)
+      setNotice(`Saved the ${emotion} mapping - recommendations pick it up within a few seconds`)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Save failed")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const listField = (name: "movies" | "songQueries" | "genres" | "books", label: string, description: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Textarea rows={6} className="font-mono text-sm" {...field} />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Emotion mappings</h1>
+            <p className="text-muted-foreground">
+              What each emotion searches for. Preview a change against the live providers before saving it.
+            </p>
+            {mappingsPath && <p className="text-xs text-muted-foreground mt-1 font-mono">{mappingsPath}</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <KeyRound className="w-4 h-4 text-muted-foreground" />
+            <Input
+              type="password"
+              placeholder="Admin token"
+              value={token}
+              onChange={(event) => saveToken(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") reload()
+              }}
+              className="w-48"
+            />
+            <Button variant="outline" size="icon" onClick={reload} disabled={isLoading} title="Reload the saved mappings">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+            <Select value={emotion} onValueChange={(value) => changeEmotion(value as Emotion)}>
+              <SelectTrigger className="w-40 capitalize">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EMOTIONS.map((value) => (
+                  <SelectItem key={value} value={value} className="capitalize">
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && !mappings ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground">
+            <Loader2 className="w-6 h-6 mr-2 animate-spin" />
+            Loading mappings...
+          </div>
+        ) : mappings && (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="capitalize">{emotion}</CardTitle>
+                <CardDescription>One search term per line. Order matters: the recommender uses the first few.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(save)} className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {listField("movies", "Movie queries", "OMDB title searches - the first three are used")}
+                      {listField("books", "Book queries", "Google Books searches - the first two are used")}
+                      {listField("genres", "Music genres", "Spotify genres - the first two are searched")}
+                      {listField("songQueries", "Song queries", "Spotify track searches for the fallback path")}
+                    </div>
+
+                    <div className="space-y-2">
+                      <h3 className="font-semibold">Audio-feature targets</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Tracks are ranked by closeness to valence and energy, shifted by where the detected mood sits.
+                      </p>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {audioFeatureFields.map(({ key, label, hint }) => (
+                          <FormField
+                            key={key}
+                            control={form.control}
+                            name={`audioFeatures.${key}`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{label}</FormLabel>
+                                <FormControl>
+                                  <Input inputMode="decimal" placeholder="unset" {...field} />
+                                </FormControl>
+                                <FormDescription>{hint}</FormDescription>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button type="button" variant="outline" onClick={runPreview} disabled={isPreviewing || isSaving}>
+                        {isPreviewing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Eye className="w-4 h-4 mr-2" />}
+                        Preview
+                      </Button>
+                      <Button type="submit" disabled={isSaving || isPreviewing || !form.formState.isDirty}>
+                        {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                        Save
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => form.reset(toFormValues(mappings[emotion]))}
+                        disabled={!form.formState.isDirty}
+                      >
+                        Revert
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  Real provider results for the saved mapping and your draft. Results are shuffled, so compare what
+                  appears rather than where.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {isPreviewing ? (
+                  <div className="flex items-center justify-center py-16 text-muted-foreground">
+                    <Loader2 className="w-6 h-6 mr-2 animate-spin" />
+                    Querying providers...
+                  </div>
+                ) : preview ? (
+                  <>
+                    {(!preview.omdb_configured || !preview.spotify_available) && (
+                      <Alert>
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>
+                          {!preview.omdb_configured && "OMDB is not configured, so there are no movie results. "}
+                          {!preview.spotify_available && "Spotify is not configured, so there are no music results."}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {previewSections.map(({ key, label, icon }) => (
+                      <PreviewTable key={key} label={label} icon={icon} current={preview.current[key]} draft={preview.draft[key]} />
+                    ))}
+                  </>
+                ) : (
+                  <p className="py-16 text-center text-muted-foreground">
+                    Edit the mapping and press Preview to see what it would recommend.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
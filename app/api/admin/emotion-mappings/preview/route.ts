@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { checkAdminAccess } from "@/lib/admin-auth"
+import { contentRecommender } from "@/lib/content-recommender"
+import { type EmotionMapping, loadEmotionMappings, parseEmotionMapping } from "@/lib/emotion-mappings"
+import { EMOTIONS, type Emotion } from "@/lib/emotion-providers/types"
+import { spotifyClient } from "@/lib/spotify-client"
+
+interface PreviewItem {
+  title: string
+  detail: string
+  link?: string
+}
+
+// Just enough of each result to compare two lists at a glance
+async function previewFor(emotion: Emotion, mapping: EmotionMapping) {
+  const { valence, energy } = mapping.songs.audioFeatures
+  const { movies, music, books } = await contentRecommender.getRecommendations(emotion, { valence, energy }, mapping)
+
+  return {
+    movies: movies.map((movie): PreviewItem => ({
+      title: movie.year ? `${movie.title} (${movie.year})` : movie.title,
+      detail: movie.genres.join(", "),
+      link: movie.imdb_url,
+    })),
+    music: music.map((song): PreviewItem => ({ title: song.name, detail: song.artist, link: song.external_url })),
+    books: books.map((book): PreviewItem => ({ title: book.title, detail: book.authors.join(", ") })),
+  }
+}
+
+/**
+ * Run the real provider queries for { emotion, mapping } next to the saved mapping, without
+ * saving anything. Both sides are shuffled by the recommender, so compare sets, not positions.
+ */
+export async function POST(request: NextRequest) {
+  const { error: accessError, status } = checkAdminAccess(request)
+  if (accessError) {
+    return NextResponse.json({ error: accessError }, { status })
+  }
+
+  try {
+    const { emotion, mapping: draft } = await request.json()
+    if (!EMOTIONS.includes(emotion)) {
+      return NextResponse.json({ error: "Invalid emotion provided" }, { status: 400 })
+    }
+
+    const { mapping, error, issues } = parseEmotionMapping(draft)
+    if (!mapping) {
+      return NextResponse.json({ error, issues }, { status: 400 })
+    }
+
+    const [current, preview] = await Promise.all([
+      previewFor(emotion, loadEmotionMappings()[emotion as Emotion]),
+      previewFor(emotion, mapping),
+    ])
+
+    return NextResponse.json({
+      current,
+      draft: preview,
+      omdb_configured: !!(process.env.OMDB_API_KEY || process.env.NEXT_PUBLIC_OMDB_API_KEY),
+      spotify_available: spotifyClient.isSpotifyAvailable(),
+    })
+  } catch (error) {
+    console.error("❌ Error previewing emotion mapping:", error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Could not preview emotion mapping" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { checkAdminAccess } from "@/lib/admin-auth"
+import { emotionMappingsPath, loadEmotionMappings, parseEmotionMapping, saveEmotionMapping } from "@/lib/emotion-mappings"
+import { EMOTIONS, type Emotion } from "@/lib/emotion-providers/types"
+
+// The saved mappings, for the editor to start from
+export async function GET(request: NextRequest) {
+  const { error: accessError, status } = checkAdminAccess(request)
+  if (accessError) {
+    return NextResponse.json({ error: accessError }, { status })
+  }
+
+  try {
+    return NextResponse.json({ mappings: loadEmotionMappings(), path: emotionMappingsPath() })
+  } catch (error) {
+    console.error("❌ Error loading emotion mappings:", error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Could not load emotion mappings" }, { status: 500 })
+  }
+}
+
+/**
+ * Save one emotion's mapping: { emotion, mapping }. Invalid entries come back as a 400 with
+ * `issues`, each a dotted path into the mapping and a message, so the editor can mark the field.
+ */
+export async function PUT(request: NextRequest) {
+  const { error: accessError, status } = checkAdminAccess(request)
+  if (accessError) {
+    return NextResponse.json({ error: accessError }, { status })
+  }
+
+  try {
+    const { emotion, mapping: draft } = await request.json()
+    if (!EMOTIONS.includes(emotion)) {
+      return NextResponse.json({ error: "Invalid emotion provided" }, { status: 400 })
+    }
+
+    const { mapping, error, issues } = parseEmotionMapping(draft)
+    if (!mapping) {
+      return NextResponse.json({ error, issues }, { status: 400 })
+    }
+
+    const { mappings, error: saveError } = await saveEmotionMapping(emotion as Emotion, mapping)
+    if (!mappings) {
+      // Only a read-only file comes back rather than throwing; it's the deployment, not the request
+      return NextResponse.json({ error: saveError }, { status: 503 })
+    }
+    return NextResponse.json({ mappings })
+  } catch (error) {
+    console.error("❌ Error saving emotion mapping:", error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Could not save emotion mapping" }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { detectionErrorBody, parseBaseline, parseSimulationOptions } from "@/lib/emotion-providers"
+import { detectFrames, frameSequenceResponse } from "@/lib/frame-detection"
+
+// A 2 second burst from the detector is 5 frames; leave headroom without inviting abuse
+const MAX_BATCH_FRAMES = 10
+
+export async function POST(request: NextRequest) {
+  try {
+    const { frames, forceRealDetection, simulation, baseline, ensemble } = await request.json()
+
+    if (!Array.isArray(frames) || frames.length === 0 || !frames.every((frame) => typeof frame === "string" && frame)) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "frames must be a non-empty list of images"), { status: 400 })
+    }
+    if (frames.length > MAX_BATCH_FRAMES) {
+      return NextResponse.json(detectionErrorBody("invalid_request", `Too many frames - send at most ${MAX_BATCH_FRAMES}`), { status: 400 })
+    }
+
+    const { options: simulationOptions, error: simulationError } = parseSimulationOptions(simulation)
+    if (simulationError) {
+      return NextResponse.json(detectionErrorBody("invalid_request", simulationError), { status: 400 })
+    }
+
+    // Neutral-face calibration stored by the client
+    const { baseline: neutralBaseline, error: baselineError } = parseBaseline(baseline)
+    if (baselineError) {
+      return NextResponse.json(detectionErrorBody("invalid_request", baselineError), { status: 400 })
+    }
+
+    const sequence = await detectFrames(frames, {
+      forceRealDetection,
+      simulation: simulationOptions,
+      baseline: neutralBaseline,
+      ensemble: typeof ensemble === "boolean" ? ensemble : undefined,
+    })
+
+    const { body, status } = frameSequenceResponse(sequence, { forceRealDetection })
+    return NextResponse.json(body, { status })
+  } catch (error) {
+    console.error("Error in batch emotion detection API:", error)
+
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error in batch emotion detection"
+    ), { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  buildBaseline,
+  type DetectionErrorCode,
+  detectionErrorBody,
+  detectWithProviders,
+  type EmotionDetectionResponse,
+  MIN_CALIBRATION_FRAMES,
+} from "@/lib/emotion-providers"
+import { normalizeImage } from "@/lib/image-normalizer"
+
+const MAX_CALIBRATION_FRAMES = 10
+
+// Turn a few frames of the user's relaxed face into a baseline the client stores and sends back with detections
+export async function POST(request: NextRequest) {
+  try {
+    const { frames, forceRealDetection } = await request.json()
+
+    if (!Array.isArray(frames) || frames.length === 0 || !frames.every((frame) => typeof frame === "string" && frame)) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "frames must be a non-empty list of images"), { status: 400 })
+    }
+    if (frames.length > MAX_CALIBRATION_FRAMES) {
+      return NextResponse.json(detectionErrorBody("invalid_request", `Too many frames - send at most ${MAX_CALIBRATION_FRAMES}`), { status: 400 })
+    }
+
+    const usable: EmotionDetectionResponse[] = []
+    let lastError = ""
+    let lastCode: DetectionErrorCode = "service_unavailable"
+
+    for (const frame of frames) {
+      const { result: normalized, error: imageError, code: imageErrorCode } = normalizeImage(frame)
+      if (!normalized) {
+        lastError = imageError || "Invalid image"
+        lastCode = imageErrorCode || "invalid_image"
+        continue
+      }
+
+      // No baseline here: calibration measures the raw resting bias
+      const { result, failures } = await detectWithProviders(normalized.image, { forceRealDetection })
+      if (!result) {
+        const lastFailure = failures[failures.length - 1]
+        lastError = lastFailure?.error || "No emotion detection service available"
+        lastCode = lastFailure?.code || lastCode
+      } else if (!result.face_detected) {
+        lastError = "No face detected - face the camera in good light"
+        lastCode = "no_face"
+      } else if (result.quality && !result.quality.passed) {
+        lastError = "Face found but the photo quality is too low to calibrate"
+        lastCode = "poor_quality"
+      } else {
+        usable.push(result)
+      }
+    }
+
+    // Mixing providers, or fused and single-provider frames, would average different resting biases
+    const latest = usable[usable.length - 1]
+    const baseline = buildBaseline(usable.filter((result) =>
+      result.service_used === latest.service_used && !!result.ensemble === !!latest.ensemble))
+    if (!baseline) {
+      const code = usable.length > 0 ? "poor_quality" : lastCode
+      const status = code === "no_face" || code === "poor_quality" ? 422 : code === "service_unavailable" ? 503 : 400
+      return NextResponse.json(detectionErrorBody(
+        code,
+        `Calibration needs at least ${MIN_CALIBRATION_FRAMES} clear frames of your face, got ${usable.length}${lastError ? ` (${lastError})` : ""}`,
+      ), { status })
+    }
+
+    return NextResponse.json({ success: true, baseline })
+  } catch (error) {
+    console.error("Error in emotion calibration API:", error)
+
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error in emotion calibration"
+    ), { status: 500 })
+  }
+}
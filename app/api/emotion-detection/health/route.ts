@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { detectionErrorBody, providerHealthMonitor } from "@/lib/emotion-providers"
+
+// Reachability is cached inside the monitor; the route itself must not be statically cached
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const report = await providerHealthMonitor.getReport()
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error("Error in emotion detection health API:", error)
+
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error checking provider health"
+    ), { status: 500 })
+  }
+}
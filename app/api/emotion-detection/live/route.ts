@@ -0,0 +1,112 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { detectionErrorBody, parseBaseline, parseSimulationOptions } from "@/lib/emotion-providers"
+import { normalizeImage } from "@/lib/image-normalizer"
+import { type LiveEvent, liveDetectionHub } from "@/lib/live-detection"
+
+// Both halves of live mode share this module so they share the hub
+export const dynamic = "force-dynamic"
+
+const SESSION_ID_PATTERN = /^[\w-]{8,64}$/
+// Keeps proxies from closing an idle stream between frames
+const HEARTBEAT_MS = 15_000
+
+// Subscribe to a live session: GET /api/emotion-detection/live?session=<id> streams Server-Sent Events
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get("session")
+  if (!sessionId || !SESSION_ID_PATTERN.test(sessionId)) {
+    return NextResponse.json(detectionErrorBody("invalid_request", "A valid session id is required"), { status: 400 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = liveDetectionHub.subscribe(sessionId, (event: LiveEvent) => {
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      })
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+
+      send("retry: 2000\n\n")
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
+
+// Submit one frame to a live session; the result arrives on the session's event stream
+export async function POST(request: NextRequest) {
+  try {
+    const { session, image, forceRealDetection, simulation, baseline, ensemble } = await request.json()
+
+    if (typeof session !== "string" || !SESSION_ID_PATTERN.test(session)) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "A valid session id is required"), { status: 400 })
+    }
+    if (!image) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "No image data provided"), { status: 400 })
+    }
+
+    const { options: simulationOptions, error: simulationError } = parseSimulationOptions(simulation)
+    if (simulationError) {
+      return NextResponse.json(detectionErrorBody("invalid_request", simulationError), { status: 400 })
+    }
+
+    // Neutral-face calibration stored by the client
+    const { baseline: neutralBaseline, error: baselineError } = parseBaseline(baseline)
+    if (baselineError) {
+      return NextResponse.json(detectionErrorBody("invalid_request", baselineError), { status: 400 })
+    }
+
+    const { result: normalized, error: imageError, code: imageErrorCode } = normalizeImage(image)
+    if (!normalized) {
+      return NextResponse.json(detectionErrorBody(imageErrorCode || "invalid_image", imageError || "Invalid image"), { status: 400 })
+    }
+
+    const accepted = await liveDetectionHub.submitFrame(session, normalized.image, {
+      forceRealDetection,
+      simulation: simulationOptions,
+      baseline: neutralBaseline,
+      ensemble: typeof ensemble === "boolean" ? ensemble : undefined,
+    })
+
+    // 202 either way: the result (or error) is delivered over the stream, a dropped frame just isn't
+    return NextResponse.json({ success: true, accepted }, { status: 202 })
+  } catch (error) {
+    console.error("Error in live emotion detection API:", error)
+
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error in live emotion detection"
+    ), { status: 500 })
+  }
+}
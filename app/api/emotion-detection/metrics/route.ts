@@ -0,0 +1,30 @@
+import { emotionProviderRegistry, providerCircuitBreakers } from "@/lib/emotion-providers"
+
+export const dynamic = "force-dynamic"
+
+const circuitStateValues = { closed: 0, half_open: 1, open: 2 }
+
+// Prometheus text exposition of the per-provider circuit breakers
+export async function GET() {
+  const snapshots = emotionProviderRegistry.list().map((provider) => ({
+    id: provider.id,
+    ...providerCircuitBreakers.get(provider.id).snapshot(),
+  }))
+
+  const metric = (name: string, type: string, help: string, value: (snapshot: (typeof snapshots)[number]) => number) => [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...snapshots.map((snapshot) => `${name}{provider="${snapshot.id}"} ${value(snapshot)}`),
+  ]
+
+  const body = [
+    ...metric("emotion_provider_circuit_state", "gauge", "Circuit breaker state (0 closed, 1 half-open, 2 open)", (s) => circuitStateValues[s.state]),
+    ...metric("emotion_provider_consecutive_failures", "gauge", "Infrastructure failures since the last success", (s) => s.consecutive_failures),
+    ...metric("emotion_provider_circuit_trips_total", "counter", "Times the circuit has opened", (s) => s.trips),
+    ...metric("emotion_provider_skipped_total", "counter", "Detections that skipped the provider because its circuit was open", (s) => s.skipped),
+  ].join("\n")
+
+  return new Response(`${body}\n`, {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" },
+  })
+}
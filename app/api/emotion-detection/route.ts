@@ -1,607 +1,107 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { detectionErrorBody, detectWithProviders, parseBaseline, parseSimulationOptions } from "@/lib/emotion-providers"
+import { normalizeImage } from "@/lib/image-normalizer"
 
-const EMOTION_API_URL = process.env.EMOTION_API_URL || "http://localhost:5001"
-
-interface EmotionDetectionResponse {
-  success: boolean
-  emotion: string
-  confidence: number
-  all_emotions: { [key: string]: number }
-  face_detected: boolean
-  error?: string
-}
-
-// Enhanced image processing for Face++ API with proper size validation
-function processImageForFacePlusPlus(imageData: string): { base64Data: string; isValid: boolean; error?: string } {
-  try {
-    // Remove data URL prefix if present
-    const base64Data = imageData.includes(",") ? imageData.split(",")[1] : imageData
-
-    // Validate base64 format
-    if (!base64Data || base64Data.length === 0) {
-      return { base64Data: "", isValid: false, error: "Empty image data" }
-    }
-
-    // Check if it's valid base64
-    try {
-      const decoded = Buffer.from(base64Data, "base64")
-
-      // Face++ image size requirements:
-      // - Minimum: 48x48 pixels
-      // - Maximum: 4096x4096 pixels
-      // - File size: < 2MB
-      const maxSizeBytes = 2 * 1024 * 1024 // 2MB
-      const minSizeBytes = 2000 // Rough estimate for 48x48 minimum (very conservative)
-
-      if (decoded.length > maxSizeBytes) {
-        return { base64Data: "", isValid: false, error: "Image too large (maximum 2MB)" }
-      }
-
-      // More lenient minimum size check - Face++ will validate the actual dimensions
-      if (decoded.length < minSizeBytes) {
-        // Don't reject here, let Face++ validate the actual pixel dimensions
-      }
-
-
-      return { base64Data, isValid: true }
-    } catch (decodeError) {
-      return { base64Data: "", isValid: false, error: "Invalid base64 format" }
-    }
-  } catch (error) {
-    console.error("Image processing error:", error)
-    return { base64Data: "", isValid: false, error: "Image processing failed" }
-  }
-}
-
-// Face++ API integration with enhanced error handling
-async function detectWithFacePlusPlus(imageData: string): Promise<EmotionDetectionResponse> {
-  const apiKey =
-    process.env.FACEPLUS_API_KEY || process.env.NEXT_PUBLIC_FACEPLUS_API_KEY 
-
-  const apiSecret =
-    process.env.FACEPLUS_API_SECRET || process.env.NEXT_PUBLIC_FACEPLUS_API_SECRET 
-
-
-
-  if (!apiKey || !apiSecret) {
-    return { success: false } as EmotionDetectionResponse
-  }
-
-  try {
-    // Process and validate image
-    const { base64Data, isValid, error } = processImageForFacePlusPlus(imageData)
-    if (!isValid) {
-      return {
-        success: false,
-        error: `Image validation failed: ${error}`,
-      } as EmotionDetectionResponse
-    }
-
-    // Create form data for Face++ API
-    const formData = new FormData()
-    formData.append("api_key", apiKey)
-    formData.append("api_secret", apiSecret)
-    formData.append("image_base64", base64Data)
-    formData.append("return_attributes", "emotion,age,gender,facequality")
-
-    const response = await fetch("https://api-us.faceplusplus.com/facepp/v3/detect", {
-      method: "POST",
-      body: formData,
-      signal: AbortSignal.timeout(20000), // Increased timeout
-    })
-
-    const responseText = await response.text()
-
-    if (!response.ok) {
-      // Parse error for better handling
-      try {
-        const errorData = JSON.parse(responseText)
-        let errorMessage = errorData.error_message || `HTTP ${response.status}`
-
-        // Handle specific Face++ errors with better messages
-        if (errorMessage.includes("INVALID_IMAGE_SIZE")) {
-          errorMessage = "Image dimensions invalid - Face++ requires images between 48x48 and 4096x4096 pixels"
-        } else if (errorMessage.includes("INVALID_IMAGE_FORMAT")) {
-          errorMessage = "Invalid image format - Face++ supports JPEG, PNG, and BMP"
-        } else if (errorMessage.includes("IMAGE_FILE_TOO_LARGE")) {
-          errorMessage = "Image file too large - Face++ requires images under 2MB"
-        } else if (errorMessage.includes("INVALID_API_KEY")) {
-          errorMessage = "Invalid Face++ API key - check your credentials"
-        } else if (errorMessage.includes("INSUFFICIENT_BALANCE")) {
-          errorMessage = "Face++ account balance insufficient"
-        } else if (errorMessage.includes("RATE_LIMIT_EXCEEDED")) {
-          errorMessage = "Face++ rate limit exceeded - try again later"
-        } else if (errorMessage.includes("IMAGE_ERROR_UNSUPPORTED_FORMAT")) {
-          errorMessage = "Unsupported image format - try capturing a new image"
-        }
-
-        return {
-          success: false,
-          error: errorMessage,
-        } as EmotionDetectionResponse
-      } catch (parseError) {
-        return {
-          success: false,
-          error: `Face++ API error: ${response.status} - ${responseText.substring(0, 200)}`,
-        } as EmotionDetectionResponse
-      }
-    }
-
-    const result = JSON.parse(responseText)
-
-    if (result.faces && result.faces.length > 0) {
-      const face = result.faces[0]
-      const emotions = face.attributes.emotion
-
-      // Map Face++ emotions to our format
-      const emotionMapping = {
-        happiness: "happy",
-        sadness: "sad",
-        anger: "angry",
-        surprise: "surprised",
-        neutral: "neutral",
-        disgust: "disgust",
-        fear: "fear",
-      }
-
-      // Find dominant emotion and normalize scores
-      let dominantEmotion = "neutral"
-      let maxConfidence = 0
-
-      const allEmotions: { [key: string]: number } = {
-        happy: 0,
-        sad: 0,
-        angry: 0,
-        surprised: 0,
-        neutral: 0,
-        disgust: 0,
-        fear: 0,
-      }
-
-      // Process Face++ emotion scores
-      Object.entries(emotions).forEach(([emotion, confidence]) => {
-        const mappedEmotion = emotionMapping[emotion as keyof typeof emotionMapping] || emotion
-        const normalizedConfidence = (confidence as number) / 100
-
-        allEmotions[mappedEmotion] = normalizedConfidence
-
-        if (normalizedConfidence > maxConfidence) {
-          maxConfidence = normalizedConfidence
-          dominantEmotion = mappedEmotion
-        }
-      })
-
-      // Get face quality info
-      const faceQuality = face.attributes.facequality || {}
-      const qualityScore = (faceQuality.threshold || 70) / 100
-
-      return {
-        success: true,
-        emotion: dominantEmotion,
-        confidence: maxConfidence,
-        all_emotions: allEmotions,
-        face_detected: true,
-        face_quality: qualityScore,
-        service_used: "faceplus",
-      }
-    } else {
-      return {
-        success: true,
-        emotion: "neutral",
-        confidence: 0.3,
-        all_emotions: {
-          happy: 0.1,
-          sad: 0.1,
-          angry: 0.1,
-          surprised: 0.1,
-          neutral: 0.5,
-          disgust: 0.05,
-          fear: 0.05,
-        },
-        face_detected: false,
-        service_used: "faceplus",
-      }
-    }
-  } catch (error) {
-    let errorMessage = "Face++ API connection failed"
-    if (error instanceof Error) {
-      if (error.name === "AbortError") {
-        errorMessage = "Face++ API timeout - try again"
-      } else if (error.message.includes("fetch")) {
-        errorMessage = "Face++ API network error"
-      } else {
-        errorMessage = error.message
-      }
-    }
-
-    return {
-      success: false,
-      error: errorMessage,
-    } as EmotionDetectionResponse
-  }
-}
-
-// AI-powered face detection using Face++ API (priority)
-async function detectEmotionWithAI(imageData: string): Promise<EmotionDetectionResponse> {
+export async function POST(request: NextRequest) {
   try {
-    // Try Face++ API first (most accurate for emotions)
-    const facePlusResult = await detectWithFacePlusPlus(imageData)
-    if (facePlusResult.success) {
-      return {
-        ...facePlusResult,
-        service_used: "faceplus",
-      }
-    } else if (facePlusResult.error) {
-      // Continue to other services
-    }
-
-    // Fallback to other services if Face++ fails
-
-
+    const { image, forceRealDetection, simulation, baseline, ensemble } = await request.json()
 
-
- 
-
-    // If all AI services fail
-    return {
-      success: false,
-      emotion: "neutral",
-      confidence: 0.3,
-      all_emotions: {
-        happy: 0.1,
-        sad: 0.1,
-        angry: 0.1,
-        surprised: 0.1,
-        neutral: 0.5,
-        disgust: 0.05,
-        fear: 0.05,
-      },
-      face_detected: false,
-      error: facePlusResult.error || "All AI face detection services unavailable",
-      service_used: "none",
-    }
-  } catch (error) {
-    console.error("AI face detection error:", error)
-    return {
-      success: false,
-      emotion: "neutral",
-      confidence: 0.3,
-      all_emotions: {
-        happy: 0.1,
-        sad: 0.1,
-        angry: 0.1,
-        surprised: 0.1,
-        neutral: 0.5,
-        disgust: 0.05,
-        fear: 0.05,
-      },
-      face_detected: false,
-      error: "AI detection failed",
-      service_used: "error",
+    if (!image) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "No image data provided"), { status: 400 })
     }
-  }
-}
-
-// Azure Face API integration
-
-
-// Google Vision API integration
-
-
-// Enhanced realistic emotion simulation with image analysis
-function generateRealisticEmotion(imageData?: string): EmotionDetectionResponse {
-  let primaryEmotion = 'neutral'
-  let confidence = 0.75
-
-  // Realistic emotion patterns based on time and image analysis
-  const timeOfDay = new Date().getHours()
-  const dayOfWeek = new Date().getDay()
-
-  // Add some variance based on image data if available
-  let imageVariance = 0.5
-  if (imageData) {
-    try {
-      // Simple image analysis based on data characteristics
-      const imageLength = imageData.length
-      const base64Part = imageData.split(',')[1] || imageData
-
-      // Analyze image characteristics for more realistic emotion detection
-      let brightnessIndicator = 0
-      let complexityIndicator = 0
-
-      if (base64Part.length > 1000) {
-        // Sample some characters to estimate image properties
-        const sampleSize = Math.min(1000, base64Part.length)
-        const sample = base64Part.substring(0, sampleSize)
-
-        // Count character distribution (rough brightness estimation)
-        const charCounts = new Map<string, number>()
-        for (const char of sample) {
-          charCounts.set(char, (charCounts.get(char) || 0) + 1)
-        }
-
-        // Characters closer to end of alphabet might indicate brighter pixels
-        let brightCharCount = 0
-        let totalChars = 0
-        for (const [char, count] of charCounts) {
-          totalChars += count
-          if (char.charCodeAt(0) > 'm'.charCodeAt(0)) {
-            brightCharCount += count
-          }
-        }
 
-        brightnessIndicator = brightCharCount / totalChars
-        complexityIndicator = charCounts.size / sample.length
-
-        // Adjust emotion based on estimated image properties
-        if (brightnessIndicator > 0.6) {
-          // Brighter images tend to correlate with positive emotions
-          imageVariance += 0.2
-        } else if (brightnessIndicator < 0.4) {
-          // Darker images might correlate with sadder emotions
-          imageVariance -= 0.1
-        }
-
-        if (complexityIndicator > 0.15) {
-          // More complex images might indicate more expressive faces
-          confidence += 0.1
-        }
-      }
-    } catch (error) {
-      // If image analysis fails, use default variance
-      imageVariance = 0.5
+    // Optional seed / clock / scripted timeline for reproducible demo and QA runs
+    const { options: simulationOptions, error: simulationError } = parseSimulationOptions(simulation)
+    if (simulationError) {
+      return NextResponse.json(detectionErrorBody("invalid_request", simulationError), { status: 400 })
     }
-  }
-
-  // Time-based emotion tendencies (more realistic patterns)
-  const emotionProbabilities = {
-    happy: 0.25,
-    neutral: 0.20,
-    surprised: 0.15,
-    sad: 0.12,
-    angry: 0.10,
-    fear: 0.10,
-    disgust: 0.08
-  }
-
-  // Adjust probabilities based on time of day
-  if (timeOfDay >= 6 && timeOfDay <= 10) {
-    // Morning - slightly more neutral/surprised
-    emotionProbabilities.neutral += 0.1
-    emotionProbabilities.surprised += 0.05
-    emotionProbabilities.happy -= 0.05
-  } else if (timeOfDay >= 18 && timeOfDay <= 22) {
-    // Evening - slightly more happy/relaxed
-    emotionProbabilities.happy += 0.1
-    emotionProbabilities.neutral += 0.05
-    emotionProbabilities.angry -= 0.05
-  } else if (timeOfDay >= 22 || timeOfDay <= 5) {
-    // Late night - more tired/neutral
-    emotionProbabilities.neutral += 0.15
-    emotionProbabilities.sad += 0.05
-    emotionProbabilities.happy -= 0.1
-  }
 
-  // Weekend vs weekday adjustments
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
-    // Weekend - slightly happier
-    emotionProbabilities.happy += 0.08
-    emotionProbabilities.angry -= 0.03
-    emotionProbabilities.sad -= 0.02
-  }
-
-  // Apply image variance
-  Object.keys(emotionProbabilities).forEach(emotion => {
-    if (emotion === 'happy' || emotion === 'surprised') {
-      emotionProbabilities[emotion as keyof typeof emotionProbabilities] *= (1 + imageVariance * 0.3)
-    } else if (emotion === 'sad' || emotion === 'angry') {
-      emotionProbabilities[emotion as keyof typeof emotionProbabilities] *= (1 - imageVariance * 0.2)
+    // Neutral-face calibration stored by the client
+    const { baseline: neutralBaseline, error: baselineError } = parseBaseline(baseline)
+    if (baselineError) {
+      return NextResponse.json(detectionErrorBody("invalid_request", baselineError), { status: 400 })
     }
-  })
-
-  // Normalize probabilities
-  const totalProb = Object.values(emotionProbabilities).reduce((sum, prob) => sum + prob, 0)
-  Object.keys(emotionProbabilities).forEach(emotion => {
-    emotionProbabilities[emotion as keyof typeof emotionProbabilities] /= totalProb
-  })
 
-  // Select emotion based on weighted random
-  let randomValue = Math.random()
-  for (const [emotion, probability] of Object.entries(emotionProbabilities)) {
-    randomValue -= probability
-    if (randomValue <= 0) {
-      primaryEmotion = emotion
-      break
+    // Upright, downscaled, metadata-free JPEG: the only version any provider ever sees
+    const { result: normalized, error: imageError, code: imageErrorCode } = normalizeImage(image)
+    if (!normalized) {
+      return NextResponse.json(detectionErrorBody(imageErrorCode || "invalid_image", imageError || "Invalid image"), { status: 400 })
     }
-  }
-
-  // Generate realistic confidence (varies by emotion type)
-  const baseConfidence = {
-    happy: { min: 0.7, max: 0.95 },
-    sad: { min: 0.65, max: 0.88 },
-    angry: { min: 0.72, max: 0.92 },
-    surprised: { min: 0.68, max: 0.91 },
-    neutral: { min: 0.60, max: 0.85 },
-    fear: { min: 0.63, max: 0.87 },
-    disgust: { min: 0.66, max: 0.89 }
-  }
-
-  const emotionConfig = baseConfidence[primaryEmotion as keyof typeof baseConfidence]
-  confidence = Math.random() * (emotionConfig.max - emotionConfig.min) + emotionConfig.min
-
-  // Generate realistic emotion distribution
-  const allEmotions: { [key: string]: number } = {}
-  const remainingConfidence = 1 - confidence
-  const otherEmotions = Object.keys(emotionProbabilities).filter(e => e !== primaryEmotion)
 
-  // Distribute remaining confidence more realistically
-  let remainingToDistribute = remainingConfidence
-
-  otherEmotions.forEach((emotion, index) => {
-    if (index === otherEmotions.length - 1) {
-      // Last emotion gets whatever is left
-      allEmotions[emotion] = Math.max(0.01, remainingToDistribute)
-    } else {
-      // Generate realistic secondary emotions
-      let maxAllowed = remainingToDistribute * 0.6 // Max 60% of remaining
-      let minAllowed = 0.01
-
-      // Some emotions are more likely to co-exist
-      if (primaryEmotion === 'happy' && emotion === 'surprised') maxAllowed *= 1.5
-      if (primaryEmotion === 'sad' && emotion === 'fear') maxAllowed *= 1.3
-      if (primaryEmotion === 'angry' && emotion === 'disgust') maxAllowed *= 1.4
+    const { result, failures, realProviderConfigured } = await detectWithProviders(normalized.image, {
+      forceRealDetection,
+      simulation: simulationOptions,
+      baseline: neutralBaseline,
+      ensemble: typeof ensemble === "boolean" ? ensemble : undefined,
+    })
 
-      const emotionScore = Math.random() * (maxAllowed - minAllowed) + minAllowed
-      allEmotions[emotion] = Math.min(emotionScore, remainingToDistribute - 0.01)
-      remainingToDistribute -= allEmotions[emotion]
+    // If forceRealDetection is true and no real providers are configured, return error
+    if (forceRealDetection && !realProviderConfigured) {
+      return NextResponse.json(detectionErrorBody(
+        "no_provider",
+        "Real emotion detection requested but no detection provider is configured. Please set FACEPLUS_API_KEY and FACEPLUS_API_SECRET environment variables or run the DeepFace service."
+      ), { status: 400 })
     }
-  })
-
-  allEmotions[primaryEmotion] = confidence
 
-  // Ensure all emotions sum to approximately 1.0
-  const total = Object.values(allEmotions).reduce((sum, val) => sum + val, 0)
-  Object.keys(allEmotions).forEach(emotion => {
-    allEmotions[emotion] /= total
-  })
-
-  return {
-    success: true,
-    emotion: primaryEmotion,
-    confidence: allEmotions[primaryEmotion],
-    all_emotions: allEmotions,
-    face_detected: true,
-    service_used: "enhanced_simulation",
-    analysis_details: {
-      time_context: `${timeOfDay}:00 ${dayOfWeek === 0 || dayOfWeek === 6 ? 'weekend' : 'weekday'}`,
-      image_analyzed: !!imageData,
-      confidence_level: confidence > 0.8 ? 'high' : confidence > 0.6 ? 'medium' : 'low'
+    // A real provider looked and found nobody: say so instead of recommending for a made-up neutral
+    if (result && !result.face_detected && result.service_mode !== "simulation") {
+      return NextResponse.json(detectionErrorBody(
+        "no_face",
+        "No face detected - face the camera in good light",
+        result.service_mode,
+        { service_used: result.service_used }
+      ), { status: 422 })
     }
-  }
-}
 
-export async function POST(request: NextRequest) {
-  try {
-    const { image, forceRealDetection } = await request.json()
-
-    if (!image) {
-      return NextResponse.json({ error: "No image data provided" }, { status: 400 })
+    // The face is there but the shot can't be trusted; tell the user what to fix
+    if (result?.quality && !result.quality.passed) {
+      return NextResponse.json(detectionErrorBody(
+        "poor_quality",
+        "Face found but the photo quality is too low to read an emotion",
+        result.service_mode,
+        { service_used: result.service_used, quality_issues: result.quality.issues }
+      ), { status: 422 })
     }
 
-    // Check if Face++ API keys are properly configured
-    const facePlusKey = process.env.FACEPLUS_API_KEY || process.env.NEXT_PUBLIC_FACEPLUS_API_KEY
-    const facePlusSecret = process.env.FACEPLUS_API_SECRET || process.env.NEXT_PUBLIC_FACEPLUS_API_SECRET
-
-    const hasFacePlusCredentials = !!(facePlusKey && facePlusSecret &&
-      facePlusKey !== "your_faceplus_api_key_here" &&
-      facePlusSecret !== "your_faceplus_api_secret_here")
-
-    // If forceRealDetection is true and no real APIs are available, return error
-    if (forceRealDetection && !hasFacePlusCredentials) {
+    if (result) {
       return NextResponse.json({
-        success: false,
-        error: "Real emotion detection requested but Face++ API credentials not configured. Please set FACEPLUS_API_KEY and FACEPLUS_API_SECRET environment variables.",
-        service_mode: "error"
-      }, { status: 400 })
-    }
-
-    // Try DeepFace service first (if available)
-    let serviceAvailable = false
-
-    try {
-      const healthResponse = await fetch(`${EMOTION_API_URL}/health`, {
-        method: "GET",
-        signal: AbortSignal.timeout(3000),
-        headers: {
-          Accept: "application/json",
+        ...result,
+        image_normalization: {
+          original: normalized.original,
+          width: normalized.width,
+          height: normalized.height,
+          byte_length: normalized.byteLength,
+          quality: normalized.quality,
+          orientation: normalized.orientation,
         },
+        ...(result.service_mode === "simulation" && {
+          note: "Using advanced emotion simulation - enable real detection by configuring Face++ API"
+        }),
       })
-
-      serviceAvailable = healthResponse.ok
-    } catch (error) {
-      serviceAvailable = false
-    }
-
-    // If DeepFace service is available, use it
-    if (serviceAvailable) {
-      try {
-        const response = await fetch(`${EMOTION_API_URL}/detect-emotion`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ image }),
-          signal: AbortSignal.timeout(15000),
-        })
-
-        if (response.ok) {
-          const result: EmotionDetectionResponse = await response.json()
-
-          return NextResponse.json({
-            ...result,
-            service_mode: "deepface_ai",
-          })
-        }
-      } catch (error) {
-        // Continue to next detection method
-      }
     }
 
-    // Try Face++ API directly if credentials are available
-    if (hasFacePlusCredentials) {
-      const facePlusResult = await detectWithFacePlusPlus(image)
-
-      if (facePlusResult.success) {
-        return NextResponse.json({
-          ...facePlusResult,
-          service_mode: "faceplus_direct",
-        })
-      } else {
-        // If forceRealDetection is true, return the Face++ error instead of falling back
-        if (forceRealDetection) {
-          return NextResponse.json({
-            success: false,
-            error: `Face++ API error: ${facePlusResult.error}`,
-            service_mode: "faceplus_error"
-          }, { status: 400 })
-        }
-      }
+    // If forceRealDetection is true, return the provider error instead of falling back
+    if (forceRealDetection && failures.length > 0) {
+      const lastFailure = failures[failures.length - 1]
+      return NextResponse.json(detectionErrorBody(
+        lastFailure.code,
+        lastFailure.error,
+        "provider_error",
+        { service_used: lastFailure.service_used }
+      ), { status: 400 })
     }
 
-    // Try other cloud AI services
-    const aiResult = await detectEmotionWithAI(image)
-
-    if (aiResult.success && aiResult.service_used !== "none") {
-      return NextResponse.json({
-        ...aiResult,
-        service_mode: "cloud_ai",
-      })
-    } else {
-      // If forceRealDetection is true, return error instead of simulation
-      if (forceRealDetection) {
-        return NextResponse.json({
-          success: false,
-          error: "All real emotion detection services are unavailable. Please configure Face++ API or other cloud AI services.",
-          service_mode: "no_real_service"
-        }, { status: 503 })
-      }
-
-      // Enhanced fallback with realistic emotion simulation
-      const simulatedResult = generateRealisticEmotion(image)
-
-      return NextResponse.json({
-        ...simulatedResult,
-        service_mode: "simulation",
-        note: "Using advanced emotion simulation - enable real detection by configuring Face++ API"
-      })
-    }
+    return NextResponse.json(detectionErrorBody(
+      "service_unavailable",
+      "All real emotion detection services are unavailable. Please configure Face++ API or other cloud AI services.",
+      "no_real_service"
+    ), { status: 503 })
   } catch (error) {
     console.error("Error in emotion detection API:", error)
 
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error in emotion detection",
-      service_mode: "error"
-    }, { status: 500 })
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error in emotion detection"
+    ), { status: 500 })
   }
 }
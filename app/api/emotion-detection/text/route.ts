@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { detectionErrorBody } from "@/lib/emotion-providers"
+import { classifyText, MAX_TEXT_LENGTH } from "@/lib/text-emotion"
+
+export async function POST(request: NextRequest) {
+  try {
+    const { text } = await request.json()
+
+    if (typeof text !== "string" || text.trim().length === 0) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "No text provided"), { status: 400 })
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        detectionErrorBody("invalid_request", `Text too long (maximum ${MAX_TEXT_LENGTH} characters)`),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(classifyText(text))
+  } catch (error) {
+    console.error("Error in text emotion API:", error)
+
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error in text emotion detection"
+    ), { status: 500 })
+  }
+}
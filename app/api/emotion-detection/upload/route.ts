@@ -0,0 +1,218 @@
+import { randomUUID } from "node:crypto"
+import { once } from "node:events"
+import { createWriteStream } from "node:fs"
+import { unlink } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { type NextRequest, NextResponse } from "next/server"
+import { type DetectionErrorCode, detectionErrorBody, type EmotionDetectionResponse, parseSimulationOptions, type VideoTimelinePoint } from "@/lib/emotion-providers"
+import { detectFrames, frameSequenceResponse } from "@/lib/frame-detection"
+import { type FileSink, readMultipart } from "@/lib/multipart"
+import { MAX_VIDEO_SECONDS, sampleVideoFrames, VIDEO_SAMPLE_FPS } from "@/lib/video-frames"
+
+// Photos are buffered for normalisation; videos go straight to a temp file for ffmpeg
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024
+const MAX_VIDEO_BYTES = 100 * 1024 * 1024
+// Detection on a video's frames stops after this long, on top of decoding. Frames run one at a
+// time and each provider call can take up to its timeout, so without a cap one clip could hold
+// the request open for minutes.
+const VIDEO_DETECTION_BUDGET_MS = 45_000
+
+type Upload = { kind: "photo"; contentType: string; chunks: Buffer[]; size: number } | { kind: "video"; path: string; size: number }
+
+type UploadRejection = { code: DetectionErrorCode; error: string; status: number }
+
+// Stream a file part to disk, waiting for the write stream to drain so a fast client can't fill memory
+function diskSink(path: string, onChunk: (size: number) => void): FileSink {
+  const stream = createWriteStream(path)
+  // Kept so a disk error between writes fails the next write instead of crashing the process
+  let failure: Error | null = null
+  stream.on("error", (error) => {
+    failure = error
+  })
+
+  return {
+    async write(chunk) {
+      if (failure) throw failure
+      onChunk(chunk.length)
+      if (!stream.write(chunk)) {
+        await once(stream, "drain")
+      }
+    },
+    async end() {
+      if (failure) throw failure
+      stream.end()
+      await once(stream, "finish")
+    },
+    abort() {
+      stream.destroy()
+    },
+  }
+}
+
+function timelinePoint(result: EmotionDetectionResponse) {
+  return {
+    success: true as const,
+    emotion: result.emotion,
+    confidence: result.confidence,
+    valence: result.valence,
+    arousal: result.arousal,
+    face_detected: result.face_detected,
+  }
+}
+
+/**
+ * Detect emotion in an uploaded photo or short video, for when there is no webcam. The file is
+ * sent as multipart/form-data in a field named `file`, alongside optional `forceRealDetection`,
+ * `ensemble` and `simulation` (JSON) fields. Videos are sampled at VIDEO_SAMPLE_FPS and come
+ * back with a per-second `timeline`. Both go through the same provider chain as the camera.
+ * A video that runs out of time is answered from the frames read so far, with `video.timed_out`.
+ * No neutral-face baseline is applied: an uploaded face isn't necessarily whoever calibrated.
+ */
+export async function POST(request: NextRequest) {
+  const state: { upload: Upload | null; rejection: UploadRejection | null } = { upload: null, rejection: null }
+
+  try {
+    const contentType = request.headers.get("content-type") || ""
+    if (!request.body || !/^multipart\/form-data/i.test(contentType)) {
+      return NextResponse.json(
+        detectionErrorBody("invalid_request", "Upload the photo or video as multipart/form-data in a field named file"),
+        { status: 400 }
+      )
+    }
+
+    const reject = (rejection: UploadRejection): never => {
+      state.rejection = rejection
+      throw new Error(rejection.error)
+    }
+
+    let fields: { [name: string]: string }
+    try {
+      fields = await readMultipart(request.body, contentType, (file): FileSink => {
+        if (file.name !== "file") {
+          return reject({ code: "invalid_request", error: `Unexpected file field "${file.name}" - use "file"`, status: 400 })
+        }
+        if (state.upload) {
+          return reject({ code: "invalid_request", error: "Upload one file at a time", status: 400 })
+        }
+
+        const mediaType = file.contentType.toLowerCase()
+        if (mediaType.startsWith("image/")) {
+          const upload: Upload = { kind: "photo", contentType: mediaType, chunks: [], size: 0 }
+          state.upload = upload
+          return {
+            write(chunk) {
+              upload.size += chunk.length
+              if (upload.size > MAX_PHOTO_BYTES) {
+                reject({ code: "image_too_large", error: `Photo is too large - send one under ${MAX_PHOTO_BYTES / 1024 / 1024}MB`, status: 413 })
+              }
+              upload.chunks.push(Buffer.from(chunk))
+            },
+            end() {},
+          }
+        }
+        if (mediaType.startsWith("video/")) {
+          const upload: Upload = { kind: "video", path: join(tmpdir(), `moodify-upload-${randomUUID()}`), size: 0 }
+          state.upload = upload
+          return diskSink(upload.path, (size) => {
+            upload.size += size
+            if (upload.size > MAX_VIDEO_BYTES) {
+              reject({ code: "image_too_large", error: `Video is too large - send a clip under ${MAX_VIDEO_BYTES / 1024 / 1024}MB`, status: 413 })
+            }
+          })
+        }
+
+        return reject({ code: "unsupported_format", error: "Upload a photo (JPEG or PNG) or a video clip", status: 415 })
+      })
+    } catch (parseError) {
+      const rejection = state.rejection || {
+        code: "invalid_request",
+        error: parseError instanceof Error ? parseError.message : "Could not read the upload",
+        status: 400,
+      }
+      return NextResponse.json(detectionErrorBody(rejection.code, rejection.error), { status: rejection.status })
+    }
+
+    const upload = state.upload
+    if (!upload || upload.size === 0) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "No file uploaded - send it in a field named file"), { status: 400 })
+    }
+
+    let simulation: unknown
+    try {
+      simulation = fields.simulation ? JSON.parse(fields.simulation) : undefined
+    } catch {
+      return NextResponse.json(detectionErrorBody("invalid_request", "simulation must be a JSON object"), { status: 400 })
+    }
+    const { options: simulationOptions, error: simulationError } = parseSimulationOptions(simulation)
+    if (simulationError) {
+      return NextResponse.json(detectionErrorBody("invalid_request", simulationError), { status: 400 })
+    }
+
+    const options = {
+      forceRealDetection: fields.forceRealDetection === "true",
+      simulation: simulationOptions,
+      ensemble: fields.ensemble === "true" ? true : fields.ensemble === "false" ? false : undefined,
+    }
+
+    if (upload.kind === "photo") {
+      const image = `data:${upload.contentType};base64,${Buffer.concat(upload.chunks).toString("base64")}`
+      const { body, status } = frameSequenceResponse(await detectFrames([image], options), options)
+      return NextResponse.json({ ...body, ...(status === 200 && { source: "photo" }) }, { status })
+    }
+
+    const { frames, error: videoError, code: videoErrorCode } = await sampleVideoFrames(upload.path)
+    if (!frames) {
+      return NextResponse.json(
+        detectionErrorBody(videoErrorCode || "unsupported_format", videoError || "Could not decode video"),
+        { status: videoErrorCode === "service_unavailable" ? 503 : 400 }
+      )
+    }
+
+    const sequence = await detectFrames(frames.map(({ image }) => image), options, {
+      deadline: Date.now() + VIDEO_DETECTION_BUDGET_MS,
+    })
+    if (sequence.timedOut && sequence.results.length === 0) {
+      return NextResponse.json(
+        detectionErrorBody("provider_timeout", "Emotion detection took too long on this video - try a shorter clip or try again", "provider_error"),
+        { status: 504 }
+      )
+    }
+    // The timeline stands in for per-frame results, which would be dozens of full responses
+    const { body, status } = frameSequenceResponse(sequence, { ...options, includeFrames: false })
+    if (status !== 200) {
+      return NextResponse.json(body, { status })
+    }
+
+    return NextResponse.json({
+      ...body,
+      source: "video",
+      timeline: sequence.results.map((result, index): VideoTimelinePoint => ({
+        timestamp_ms: frames[index].timestamp_ms,
+        ...(result.success
+          ? timelinePoint(result)
+          : { success: false, code: result.code, error: result.error }),
+      })),
+      video: {
+        sample_fps: VIDEO_SAMPLE_FPS,
+        frame_count: frames.length,
+        // Only the first MAX_VIDEO_SECONDS were analysed
+        truncated: frames.length >= VIDEO_SAMPLE_FPS * MAX_VIDEO_SECONDS,
+        // Ran out of time after analysed_frames frames; the timeline stops there
+        timed_out: !!sequence.timedOut,
+        analysed_frames: sequence.results.length,
+      },
+    })
+  } catch (error) {
+    console.error("Error in emotion upload API:", error)
+
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error in emotion upload"
+    ), { status: 500 })
+  } finally {
+    if (state.upload?.kind === "video") {
+      await unlink(state.upload.path).catch(() => undefined)
+    }
+  }
+}
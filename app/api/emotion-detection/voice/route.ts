@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { detectionErrorBody } from "@/lib/emotion-providers"
+import { classifyVoice, MAX_CLIP_SECONDS, MIN_CLIP_SECONDS } from "@/lib/voice-emotion"
+import { decodeWav } from "@/lib/wav"
+
+export async function POST(request: NextRequest) {
+  try {
+    const { audio } = await request.json()
+
+    if (typeof audio !== "string" || audio.length === 0) {
+      return NextResponse.json(detectionErrorBody("invalid_request", "No audio data provided"), { status: 400 })
+    }
+
+    // Remove data URL prefix if present
+    const base64Data = audio.includes(",") ? audio.split(",")[1] : audio
+
+    let clip
+    try {
+      clip = decodeWav(Buffer.from(base64Data, "base64"))
+    } catch (decodeError) {
+      return NextResponse.json(detectionErrorBody(
+        "invalid_request",
+        decodeError instanceof Error ? decodeError.message : "Invalid audio data"
+      ), { status: 400 })
+    }
+
+    const duration = clip.samples.length / clip.sampleRate
+    if (duration < MIN_CLIP_SECONDS || duration > MAX_CLIP_SECONDS) {
+      return NextResponse.json(
+        detectionErrorBody("invalid_request", `Recording must be between ${MIN_CLIP_SECONDS} and ${MAX_CLIP_SECONDS} seconds`),
+        { status: 400 }
+      )
+    }
+
+    const result = classifyVoice(clip)
+    if (!result) {
+      return NextResponse.json(
+        detectionErrorBody("no_speech", "No speech detected - try speaking closer to the microphone"),
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error in voice emotion API:", error)
+
+    return NextResponse.json(detectionErrorBody(
+      "internal_error",
+      error instanceof Error ? error.message : "Unknown error in voice emotion detection"
+    ), { status: 500 })
+  }
+}
@@ -1,6 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { spotifyClient } from "@/lib/spotify-client"
-import { contentRecommender } from "@/lib/content-recommender"
+import { type AudioTargets, contentRecommender } from "@/lib/content-recommender"
+import { type CircumplexPoint, EMOTION_COORDINATES, emotionsFromCoordinates, isCircumplexPoint } from "@/lib/circumplex"
+import { loadEmotionMappings } from "@/lib/emotion-mappings"
+import { EMOTIONS } from "@/lib/emotion-providers/types"
+import { type BlendComponent, blendComponents, blendLists, isEmotionDistribution } from "@/lib/recommendation-blend"
+import { type ContentCategory, CONTENT_CATEGORIES, type RecommendationCursor, recommendationSessions } from "@/lib/recommendation-sessions"
+import { isRecommendationStrategy, RECOMMENDATION_STRATEGIES, strategyDistribution, strategyGoal } from "@/lib/recommendation-strategy"
 
 type Emotion = "happy" | "sad" | "angry" | "surprised" | "neutral" | "disgust" | "fear"
 
@@ -12,106 +18,34 @@ interface Recommendation {
   link: string
   rating?: number
   preview_url?: string
+  // The emotion whose mapping produced this pick
+  emotion?: Emotion
 }
 
-// Enhanced emotion-based queries and genres for Spotify
-const emotionConfig = {
-  happy: {
-    movies: ["comedy", "feel good", "uplifting", "musical", "adventure"],
-    songs: {
-      queries: ["happy", "upbeat", "celebration", "dance", "feel good", "party", "joy", "sunshine", "positive"],
-      genres: ["pop", "dance", "funk", "disco", "happy", "party"],
-      audioFeatures: {
-        valence: 0.8, // High positivity
-        energy: 0.7, // High energy
-        danceability: 0.7,
-      },
-    },
-    books: ["humor", "romance", "adventure", "self help", "inspiration"],
-  },
-  sad: {
-    movies: ["drama", "inspiring", "hope", "healing", "uplifting"],
-    songs: {
-      queries: ["sad", "melancholy", "emotional", "heartbreak", "comfort", "healing", "slow", "ballad"],
-      genres: ["acoustic", "indie", "folk", "blues", "soul", "sad"],
-      audioFeatures: {
-        valence: 0.3, // Low positivity
-        energy: 0.4, // Lower energy
-        acousticness: 0.6,
-      },
-    },
-    books: ["healing", "memoir", "philosophy", "comfort", "hope"],
-  },
-  angry: {
-    movies: ["action", "martial arts", "sports", "comedy", "peaceful"],
-    songs: {
-      queries: ["rock", "metal", "aggressive", "intense", "powerful", "energy", "strong"],
-      genres: ["rock", "metal", "punk", "alternative", "hard-rock"],
-      audioFeatures: {
-        valence: 0.4,
-        energy: 0.8, // High energy for release
-        loudness: -5,
-      },
-    },
-    books: ["mindfulness", "anger management", "philosophy", "meditation", "psychology"],
-  },
-  surprised: {
-    movies: ["thriller", "mystery", "sci-fi", "plot twist", "suspense"],
-    songs: {
-      queries: ["experimental", "electronic", "unique", "unexpected", "innovative", "weird", "unusual"],
-      genres: ["electronic", "experimental", "progressive", "indie", "alternative"],
-      audioFeatures: {
-        valence: 0.6,
-        energy: 0.6,
-        instrumentalness: 0.3,
-      },
-    },
-    books: ["mystery", "thriller", "science fiction", "plot twist", "suspense"],
-  },
-  neutral: {
-    movies: ["popular", "top rated", "classic", "award winning", "drama"],
-    songs: {
-      queries: ["popular", "top hits", "classic", "mainstream", "trending", "chill", "relaxed"],
-      genres: ["pop", "rock", "indie", "alternative", "folk"],
-      audioFeatures: {
-        valence: 0.5,
-        energy: 0.5,
-        popularity: 70,
-      },
-    },
-    books: ["bestseller", "classic", "award winning", "popular", "fiction"],
-  },
-  disgust: {
-    movies: ["wholesome", "family", "animation", "nature", "clean"],
-    songs: {
-      queries: ["peaceful", "nature", "instrumental", "clean", "wholesome", "pure", "calm"],
-      genres: ["classical", "ambient", "new-age", "instrumental", "world"],
-      audioFeatures: {
-        valence: 0.7,
-        energy: 0.3,
-        acousticness: 0.8,
-      },
-    },
-    books: ["wholesome", "nature", "poetry", "philosophy", "clean fiction"],
-  },
-  fear: {
-    movies: ["inspiring", "courage", "adventure", "feel good", "motivational"],
-    songs: {
-      queries: ["motivational", "empowering", "courage", "strength", "uplifting", "brave", "confident"],
-      genres: ["pop", "rock", "inspirational", "gospel", "motivational"],
-      audioFeatures: {
-        valence: 0.7,
-        energy: 0.6,
-        speechiness: 0.1,
-      },
-    },
-    books: ["courage", "self help", "motivational", "overcoming fear", "empowerment"],
-  },
+const SESSION_ID_PATTERN = /^[\w-]{8,64}$/
+
+// How far the Spotify valence/energy targets (0..1) move per unit of circumplex distance (-1..1)
+const AUDIO_TARGET_SHIFT = 0.5
+
+/**
+ * The mapped audioFeatures are tuned for each label's textbook position. Shift valence and energy
+ * by how far the detected point sits from it, so a drowsy "happy" and an ecstatic one differ.
+ */
+function audioTargetsFor(emotion: Emotion, point?: CircumplexPoint): AudioTargets {
+  const { valence, energy } = loadEmotionMappings()[emotion].songs.audioFeatures
+  if (!point) return { valence, energy }
+
+  const anchor = EMOTION_COORDINATES[emotion]
+  const clamp = (value: number) => Number(Math.max(0, Math.min(1, value)).toFixed(2))
+  return {
+    valence: clamp(valence + (point.valence - anchor.valence) * AUDIO_TARGET_SHIFT),
+    energy: clamp(energy + (point.arousal - anchor.arousal) * AUDIO_TARGET_SHIFT),
+  }
 }
 
 async function fetchMovies(emotion: Emotion): Promise<Recommendation[]> {
   try {
-    const queries = emotionConfig[emotion].movies
+    const queries = loadEmotionMappings()[emotion].movies
     const randomQuery = queries[Math.floor(Math.random() * queries.length)]
 
     // Check for both environment variables
@@ -190,9 +124,9 @@ async function fetchMovies(emotion: Emotion): Promise<Recommendation[]> {
   }
 }
 
-async function fetchSpotifySongs(emotion: Emotion): Promise<Recommendation[]> {
+async function fetchSpotifySongs(emotion: Emotion, point?: CircumplexPoint): Promise<Recommendation[]> {
   try {
-    const config = emotionConfig[emotion].songs
+    const config = loadEmotionMappings()[emotion].songs
     const songs: Recommendation[] = []
 
 
@@ -205,7 +139,7 @@ async function fetchSpotifySongs(emotion: Emotion): Promise<Recommendation[]> {
 
     // Try Spotify recommendations first (best quality)
     try {
-      const spotifyTracks = await spotifyClient.getRecommendations(config.genres, 5)
+      const spotifyTracks = await spotifyClient.getRecommendations(config.genres, 5, audioTargetsFor(emotion, point))
       if (spotifyTracks.length > 0) {
         const spotifyRecommendations = spotifyTracks
           .slice(0, 3)
@@ -250,7 +184,7 @@ async function fetchSpotifySongs(emotion: Emotion): Promise<Recommendation[]> {
 
 async function fetchBooks(emotion: Emotion): Promise<Recommendation[]> {
   try {
-    const queries = emotionConfig[emotion].books
+    const queries = loadEmotionMappings()[emotion].books
     const randomQuery = queries[Math.floor(Math.random() * queries.length)]
 
 
@@ -264,7 +198,8 @@ async function fetchBooks(emotion: Emotion): Promise<Recommendation[]> {
   }
 }
 
-// Enhanced fallback functions with better content
+// Canned picks for when no provider answers, in each emotion's own tone like the mapping file. The
+// strategy's blend decides whose lists are mixed in, so these never try to change the mood themselves.
 function getFallbackMovies(emotion: Emotion): Recommendation[] {
   const fallbacks = {
     happy: [
@@ -297,27 +232,27 @@ function getFallbackMovies(emotion: Emotion): Recommendation[] {
     sad: [
       {
         id: "1",
-        title: "Inside Out",
-        description: "Pixar masterpiece that helps understand and process complex emotions with empathy and wisdom.",
-        image: "https://image.tmdb.org/t/p/w300/aAmfIX3TT40zUHGcCKrlOZRKC7u.jpg",
-        link: "https://www.themoviedb.org/movie/150540",
-        rating: 8.1,
+        title: "Manchester by the Sea",
+        description: "Quiet, devastating drama about a man who cannot outrun his grief when he is called home.",
+        image: "/placeholder.svg?height=200&width=150&text=🎬",
+        link: "https://www.themoviedb.org/search?query=Manchester%20by%20the%20Sea",
+        rating: 7.8,
       },
       {
         id: "2",
         title: "A Monster Calls",
-        description: "Beautiful story about dealing with grief and finding strength in difficult times.",
+        description: "Beautiful story about a boy facing his mother's illness and the grief that comes with it.",
         image: "https://image.tmdb.org/t/p/w300/2DJvLTApaNMnAdZRFH4DWlhf3S5.jpg",
         link: "https://www.themoviedb.org/movie/258230",
         rating: 7.5,
       },
       {
         id: "3",
-        title: "Good Will Hunting",
-        description: "Inspiring drama about healing, friendship, and discovering your potential.",
-        image: "https://image.tmdb.org/t/p/w300/bABCBKYBK7A5G1x0FzoeoNfuj2.jpg",
-        link: "https://www.themoviedb.org/movie/2268",
-        rating: 8.3,
+        title: "Grave of the Fireflies",
+        description: "Heartbreaking Studio Ghibli film about two siblings struggling to survive the end of a war.",
+        image: "/placeholder.svg?height=200&width=150&text=🎬",
+        link: "https://www.themoviedb.org/search?query=Grave%20of%20the%20Fireflies",
+        rating: 8.5,
       },
     ],
     neutral: [
@@ -349,28 +284,27 @@ function getFallbackMovies(emotion: Emotion): Recommendation[] {
     angry: [
       {
         id: "1",
-        title: "The Karate Kid",
-        description:
-          "Classic film about channeling anger into discipline and finding inner strength through martial arts.",
-        image: "https://image.tmdb.org/t/p/w300/9mG4BMqk9gQMpJoNjF0cHTAdPDK.jpg",
-        link: "https://www.themoviedb.org/movie/1885",
-        rating: 7.2,
+        title: "Kill Bill: Vol. 1",
+        description: "Stylish revenge saga about a bride who wakes from a coma and hunts down those who betrayed her.",
+        image: "/placeholder.svg?height=200&width=150&text=🎬",
+        link: "https://www.themoviedb.org/search?query=Kill%20Bill%3A%20Vol.%201",
+        rating: 8.2,
       },
       {
         id: "2",
-        title: "Rocky",
-        description: "Inspiring underdog story about determination, hard work, and never giving up.",
-        image: "https://image.tmdb.org/t/p/w300/i5xiwqQIjX8RM20Tf4UB4gcXGNk.jpg",
-        link: "https://www.themoviedb.org/movie/1366",
-        rating: 8.1,
+        title: "Gladiator",
+        description: "A betrayed general fights his way through the arena to face the emperor who destroyed his family.",
+        image: "/placeholder.svg?height=200&width=150&text=🎬",
+        link: "https://www.themoviedb.org/search?query=Gladiator",
+        rating: 8.5,
       },
       {
         id: "3",
-        title: "Peaceful Warrior",
-        description: "Philosophical drama about finding inner peace and transforming anger into wisdom.",
-        image: "https://image.tmdb.org/t/p/w300/9eQ4wKW2LzOVuubQVFdJhgxXGo.jpg",
-        link: "https://www.themoviedb.org/movie/13155",
-        rating: 7.2,
+        title: "John Wick",
+        description: "Relentless action thriller about a retired hitman pulled back in to settle a personal score.",
+        image: "/placeholder.svg?height=200&width=150&text=🎬",
+        link: "https://www.themoviedb.org/search?query=John%20Wick",
+        rating: 7.4,
       },
     ],
     surprised: [
@@ -402,53 +336,53 @@ function getFallbackMovies(emotion: Emotion): Recommendation[] {
     disgust: [
       {
         id: "1",
-        title: "WALL-E",
-        description: "Beautiful Pixar film about environmental consciousness and finding beauty in unexpected places.",
+        title: "Network",
+        description: "Scathing satire about a TV network that turns a newsman's breakdown into ratings.",
         image: "/placeholder.svg?height=200&width=150&text=🎬",
-        link: "https://www.themoviedb.org/movie/10681",
-        rating: 8.4,
+        link: "https://www.themoviedb.org/search?query=Network",
+        rating: 8.1,
       },
       {
         id: "2",
-        title: "My Neighbor Totoro",
-        description: "Wholesome Studio Ghibli film that celebrates nature, family, and childhood wonder.",
+        title: "The Wolf of Wall Street",
+        description: "Dark comedy about greed, fraud and excess on Wall Street.",
         image: "/placeholder.svg?height=200&width=150&text=🎬",
-        link: "https://www.themoviedb.org/movie/8392",
+        link: "https://www.themoviedb.org/search?query=The%20Wolf%20of%20Wall%20Street",
         rating: 8.2,
       },
       {
         id: "3",
-        title: "The Secret Garden",
-        description: "Uplifting story about healing, growth, and the transformative power of nature.",
+        title: "Parasite",
+        description: "Razor-sharp dark comedy about class, envy and two families entangled in deceit.",
         image: "/placeholder.svg?height=200&width=150&text=🎬",
-        link: "https://www.themoviedb.org/movie/3078",
-        rating: 7.3,
+        link: "https://www.themoviedb.org/search?query=Parasite",
+        rating: 8.5,
       },
     ],
     fear: [
       {
         id: "1",
-        title: "Finding Nemo",
-        description: "Inspiring Pixar film about overcoming fears, anxiety, and finding courage in the face of danger.",
+        title: "The Shining",
+        description: "A winter caretaker slowly loses his mind in an isolated, haunted hotel.",
         image: "/placeholder.svg?height=200&width=150&text=🎬",
-        link: "https://www.themoviedb.org/movie/12",
-        rating: 8.2,
+        link: "https://www.themoviedb.org/search?query=The%20Shining",
+        rating: 8.4,
       },
       {
         id: "2",
-        title: "The Lion King",
-        description: "Epic tale about facing your fears, accepting responsibility, and finding your courage.",
+        title: "Hereditary",
+        description: "Unsettling horror about a grieving family and the dark secrets they inherit.",
         image: "/placeholder.svg?height=200&width=150&text=🎬",
-        link: "https://www.themoviedb.org/movie/8587",
-        rating: 8.5,
+        link: "https://www.themoviedb.org/search?query=Hereditary",
+        rating: 7.3,
       },
       {
         id: "3",
-        title: "Brave",
-        description: "Pixar adventure about a young princess who must overcome her fears to save her kingdom.",
+        title: "A Quiet Place",
+        description: "Tense survival horror about a family that must live in silence to stay alive.",
         image: "/placeholder.svg?height=200&width=150&text=🎬",
-        link: "https://www.themoviedb.org/movie/62177",
-        rating: 7.1,
+        link: "https://www.themoviedb.org/search?query=A%20Quiet%20Place",
+        rating: 7.5,
       },
     ],
   }
@@ -487,26 +421,26 @@ function getFallbackSongs(emotion: Emotion): Recommendation[] {
     sad: [
       {
         id: "1",
-        title: "Here Comes the Sun - The Beatles",
-        description: "Gentle reminder that difficult times will pass and brighter days are ahead • 3:05",
-        image: "https://i.scdn.co/image/ab67616d0000b273dc30583ba717007b00cceb25",
-        link: "https://open.spotify.com/search/here%20comes%20the%20sun%20beatles",
-        rating: 4.9,
+        title: "Someone Like You - Adele",
+        description: "Aching piano ballad about letting go of a love that's over • 4:45",
+        image: "/placeholder.svg?height=200&width=200&text=🎵",
+        link: "https://open.spotify.com/search/someone%20like%20you%20adele",
+        rating: 4.8,
       },
       {
         id: "2",
-        title: "Three Little Birds - Bob Marley",
-        description: "Soothing reggae song about not worrying and trusting that everything will be alright • 3:00",
-        image: "https://i.scdn.co/image/ab67616d0000b273e4e3c3b3b85c6b2b4b2bc2b1",
-        link: "https://open.spotify.com/search/three%20little%20birds%20marley",
-        rating: 4.8,
+        title: "Hurt - Johnny Cash",
+        description: "Raw, haunting reflection on regret and loss • 3:38",
+        image: "/placeholder.svg?height=200&width=200&text=🎵",
+        link: "https://open.spotify.com/search/hurt%20johnny%20cash",
+        rating: 4.9,
       },
       {
         id: "3",
-        title: "Lean on Me - Bill Withers",
-        description: "Comforting song about friendship, support, and being there for each other • 4:17",
-        image: "https://i.scdn.co/image/ab67616d0000b2734bb80f29cf4b72ef7c4c6b7e",
-        link: "https://open.spotify.com/search/lean%20on%20me%20withers",
+        title: "Skinny Love - Bon Iver",
+        description: "Fragile acoustic song about a love falling apart • 3:58",
+        image: "/placeholder.svg?height=200&width=200&text=🎵",
+        link: "https://open.spotify.com/search/skinny%20love%20bon%20iver",
         rating: 4.7,
       },
     ],
@@ -539,27 +473,27 @@ function getFallbackSongs(emotion: Emotion): Recommendation[] {
     angry: [
       {
         id: "1",
-        title: "Eye of the Tiger - Survivor",
-        description: "Powerful rock anthem for channeling anger into determination and strength • 4:04",
+        title: "Killing in the Name - Rage Against the Machine",
+        description: "Furious protest anthem built on a crushing riff • 5:13",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/eye%20of%20the%20tiger%20survivor",
-        rating: 4.6,
+        link: "https://open.spotify.com/search/killing%20in%20the%20name%20rage%20against%20the%20machine",
+        rating: 4.7,
       },
       {
         id: "2",
-        title: "Breathe Me - Sia",
-        description: "Emotional song for processing anger and finding inner peace • 4:31",
+        title: "Chop Suey! - System of a Down",
+        description: "Frantic, explosive metal with nowhere to hide • 3:30",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/breathe%20me%20sia",
-        rating: 4.5,
+        link: "https://open.spotify.com/search/chop%20suey%21%20system%20of%20a%20down",
+        rating: 4.6,
       },
       {
         id: "3",
-        title: "Stronger - Kelly Clarkson",
-        description: "Empowering anthem about resilience and turning pain into strength • 3:42",
+        title: "Du Hast - Rammstein",
+        description: "Pounding industrial metal with menacing vocals • 3:54",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/stronger%20kelly%20clarkson",
-        rating: 4.4,
+        link: "https://open.spotify.com/search/du%20hast%20rammstein",
+        rating: 4.5,
       },
     ],
     surprised: [
@@ -591,53 +525,53 @@ function getFallbackSongs(emotion: Emotion): Recommendation[] {
     disgust: [
       {
         id: "1",
-        title: "What a Wonderful World - Louis Armstrong",
-        description: "Beautiful song that restores faith in goodness and beauty • 2:21",
+        title: "Smells Like Teen Spirit - Nirvana",
+        description: "Sneering grunge anthem full of distortion and disdain • 5:01",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/wonderful%20world%20armstrong",
+        link: "https://open.spotify.com/search/smells%20like%20teen%20spirit%20nirvana",
         rating: 4.8,
       },
       {
         id: "2",
-        title: "Over the Rainbow - Judy Garland",
-        description: "Timeless classic about hope, dreams, and finding beauty beyond troubles • 2:42",
+        title: "Head Like a Hole - Nine Inch Nails",
+        description: "Abrasive industrial attack on greed and control • 4:59",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/over%20the%20rainbow%20judy%20garland",
-        rating: 4.7,
+        link: "https://open.spotify.com/search/head%20like%20a%20hole%20nine%20inch%20nails",
+        rating: 4.6,
       },
       {
         id: "3",
-        title: "Pure Imagination - Gene Wilder",
-        description: "Whimsical song that celebrates creativity and the power of positive thinking • 3:15",
+        title: "American Idiot - Green Day",
+        description: "Snarling punk takedown of media and conformity • 2:54",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/pure%20imagination%20gene%20wilder",
+        link: "https://open.spotify.com/search/american%20idiot%20green%20day",
         rating: 4.5,
       },
     ],
     fear: [
       {
         id: "1",
-        title: "Brave - Sara Bareilles",
-        description: "Empowering anthem about finding courage and speaking your truth • 4:20",
+        title: "Lullaby - The Cure",
+        description: "Creeping, whispered nightmare about being devoured in your sleep • 4:08",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/brave%20sara%20bareilles",
-        rating: 4.6,
+        link: "https://open.spotify.com/search/lullaby%20the%20cure",
+        rating: 4.5,
       },
       {
         id: "2",
-        title: "Fight Song - Rachel Platten",
-        description: "Inspiring anthem about inner strength and overcoming fear with determination • 3:23",
+        title: "Bela Lugosi's Dead - Bauhaus",
+        description: "Slow, eerie gothic classic built on echo and dread • 9:36",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/fight%20song%20rachel%20platten",
+        link: "https://open.spotify.com/search/bela%20lugosi%27s%20dead%20bauhaus",
         rating: 4.4,
       },
       {
         id: "3",
-        title: "Roar - Katy Perry",
-        description: "Uplifting pop anthem about finding your voice and conquering your fears • 3:43",
+        title: "Thriller - Michael Jackson",
+        description: "Horror-movie pop with creaking doors and a midnight monster • 5:57",
         image: "/placeholder.svg?height=200&width=200&text=🎵",
-        link: "https://open.spotify.com/search/roar%20katy%20perry",
-        rating: 4.3,
+        link: "https://open.spotify.com/search/thriller%20michael%20jackson",
+        rating: 4.8,
       },
     ],
   }
@@ -732,7 +666,7 @@ function getGoodreadsStyleBooks(emotion: Emotion): Recommendation[] {
         description: "A provocative exploration of power, gender, and society that will challenge your perspective on the world.",
         image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1465761687i/29751398.jpg",
         link: "https://www.goodreads.com/book/show/29751398-the-power",
-        rating: 3.9,
+        rating: 3.8,
       },
       {
         id: "2",
@@ -740,15 +674,15 @@ function getGoodreadsStyleBooks(emotion: Emotion): Recommendation[] {
         description: "Epic fantasy filled with intense action, political intrigue, and a protagonist driven by the need for revenge.",
         image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1548356842i/41952489.jpg",
         link: "https://www.goodreads.com/book/show/41952489-the-rage-of-dragons",
-        rating: 4.3,
+        rating: 4.4,
       },
       {
         id: "3",
-        title: "The Power of Now",
-        description: "A spiritual guide to finding peace and presence, perfect for channeling intense emotions into mindfulness.",
-        image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1386925471i/6708.jpg",
-        link: "https://www.goodreads.com/book/show/6708.The_Power_of_Now",
-        rating: 4.1,
+        title: "The Count of Monte Cristo",
+        description: "A wrongly imprisoned sailor escapes and spends years engineering his revenge on the men who betrayed him.",
+        image: "/placeholder.svg?height=250&width=180&text=📚",
+        link: "https://www.goodreads.com/search?q=The%20Count%20of%20Monte%20Cristo",
+        rating: 4.3,
       },
     ],
     surprised: [
@@ -780,53 +714,53 @@ function getGoodreadsStyleBooks(emotion: Emotion): Recommendation[] {
     disgust: [
       {
         id: "1",
-        title: "The Alchemist",
-        description: "A beautiful, inspiring tale about following your dreams and listening to your heart that will restore your faith in goodness.",
-        image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1654371463i/18144590.jpg",
-        link: "https://www.goodreads.com/book/show/18144590-the-alchemist",
-        rating: 3.9,
+        title: "Animal Farm",
+        description: "A farmyard revolution curdles into tyranny in Orwell's biting satire of power and corruption.",
+        image: "/placeholder.svg?height=250&width=180&text=📚",
+        link: "https://www.goodreads.com/search?q=Animal%20Farm",
+        rating: 4.0,
       },
       {
         id: "2",
-        title: "A Good Girl's Guide to Murder",
-        description: "A gripping mystery that will cleanse your palate with its engaging plot and likeable characters.",
-        image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1556134336i/43306540.jpg",
-        link: "https://www.goodreads.com/book/show/43306540-a-good-girl-s-guide-to-murder",
-        rating: 4.4,
+        title: "Catch-22",
+        description: "Savage, absurd satire of war and the bureaucracy that keeps soldiers flying missions.",
+        image: "/placeholder.svg?height=250&width=180&text=📚",
+        link: "https://www.goodreads.com/search?q=Catch-22",
+        rating: 3.9,
       },
       {
         id: "3",
-        title: "The Thursday Murder Club",
-        description: "A delightful cozy mystery with charming characters that will restore your faith in humanity and justice.",
-        image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1585242967i/46000520.jpg",
-        link: "https://www.goodreads.com/book/show/46000520-the-thursday-murder-club",
-        rating: 4.2,
+        title: "The Handmaid's Tale",
+        description: "A chilling dystopia where a theocratic regime strips women of every right.",
+        image: "/placeholder.svg?height=250&width=180&text=📚",
+        link: "https://www.goodreads.com/search?q=The%20Handmaid%27s%20Tale",
+        rating: 4.1,
       },
     ],
     fear: [
       {
         id: "1",
-        title: "Anxious People",
-        description: "A heartwarming story about human connection and understanding that will help you feel less alone in your fears.",
-        image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1597937463i/49127718.jpg",
-        link: "https://www.goodreads.com/book/show/49127718-anxious-people",
-        rating: 4.2,
+        title: "The Haunting of Hill House",
+        description: "Four people spend a summer in a house that seems to want one of them to stay forever.",
+        image: "/placeholder.svg?height=250&width=180&text=📚",
+        link: "https://www.goodreads.com/search?q=The%20Haunting%20of%20Hill%20House",
+        rating: 3.9,
       },
       {
         id: "2",
-        title: "The Cozy Life",
-        description: "A gentle guide to finding comfort and contentment in life's simple pleasures, perfect for anxious moments.",
-        image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1569258914i/46819737.jpg",
-        link: "https://www.goodreads.com/book/show/46819737-the-cozy-life",
-        rating: 4.0,
+        title: "Mexican Gothic",
+        description: "A young woman uncovers something rotten in a decaying mansion in the Mexican countryside.",
+        image: "/placeholder.svg?height=250&width=180&text=📚",
+        link: "https://www.goodreads.com/search?q=Mexican%20Gothic",
+        rating: 3.7,
       },
       {
         id: "3",
-        title: "Maybe You Should Talk to Someone",
-        description: "A therapist's own journey through therapy - honest, funny, and deeply reassuring about facing our fears.",
-        image: "https://images-na.ssl-images-amazon.com/images/S/compressed.photo.goodreads.com/books/1549042097i/37570546.jpg",
-        link: "https://www.goodreads.com/book/show/37570546-maybe-you-should-talk-to-someone",
-        rating: 4.4,
+        title: "It",
+        description: "A group of friends face the shape-shifting evil that preys on the children of their town.",
+        image: "/placeholder.svg?height=250&width=180&text=📚",
+        link: "https://www.goodreads.com/search?q=It",
+        rating: 4.3,
       },
     ],
   }
@@ -917,27 +851,27 @@ function getFallbackBooks(emotion: Emotion): Recommendation[] {
     angry: [
       {
         id: "1",
-        title: "The Power of Now",
-        description: "Guide to mindfulness and emotional control for managing anger and frustration",
+        title: "The Grapes of Wrath",
+        description: "Raging portrait of a family driven off their land and exploited on the road west",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/6708.The_Power_of_Now",
-        rating: 4.1,
+        link: "https://www.goodreads.com/search?q=The%20Grapes%20of%20Wrath",
+        rating: 4.0,
       },
       {
         id: "2",
-        title: "Anger: Wisdom for Cooling the Flames",
-        description: "Buddhist approach to understanding and transforming anger into compassion",
+        title: "The Hate U Give",
+        description: "A teenager speaks out after witnessing a police shooting of her friend",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/95747.Anger",
-        rating: 4.3,
+        link: "https://www.goodreads.com/search?q=The%20Hate%20U%20Give",
+        rating: 4.5,
       },
       {
         id: "3",
-        title: "The Gifts of Imperfection",
-        description: "Brené Brown's guide to letting go of perfectionism and embracing authenticity",
+        title: "Red Rising",
+        description: "A miner infiltrates the ruling class to take revenge on the society that enslaved his people",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/7015403",
-        rating: 4.2,
+        link: "https://www.goodreads.com/search?q=Red%20Rising",
+        rating: 4.3,
       },
     ],
     surprised: [
@@ -969,53 +903,53 @@ function getFallbackBooks(emotion: Emotion): Recommendation[] {
     disgust: [
       {
         id: "1",
-        title: "The Little Prince",
-        description: "Innocent tale that restores wonder and purity to the world",
+        title: "Brave New World",
+        description: "Dystopian satire of a society that trades freedom for comfort and control",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/157993.The_Little_Prince",
-        rating: 4.3,
+        link: "https://www.goodreads.com/search?q=Brave%20New%20World",
+        rating: 4.0,
       },
       {
         id: "2",
-        title: "Charlotte's Web",
-        description: "Timeless story of friendship, loyalty, and the beauty of simple kindness",
+        title: "Lord of the Flies",
+        description: "Stranded schoolboys descend into cruelty and savagery",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/24178.Charlotte_s_Web",
-        rating: 4.2,
+        link: "https://www.goodreads.com/search?q=Lord%20of%20the%20Flies",
+        rating: 3.7,
       },
       {
         id: "3",
-        title: "The Secret Garden",
-        description: "Classic tale about healing, growth, and the transformative power of nature",
+        title: "A Clockwork Orange",
+        description: "Disturbing satire of violence and state control",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/2998.The_Secret_Garden",
-        rating: 4.1,
+        link: "https://www.goodreads.com/search?q=A%20Clockwork%20Orange",
+        rating: 4.0,
       },
     ],
     fear: [
       {
         id: "1",
-        title: "Feel the Fear and Do It Anyway",
-        description: "Self-help guide to overcoming anxiety and fear with practical strategies",
+        title: "Dracula",
+        description: "The classic gothic horror of a centuries-old vampire's arrival in England",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/9457.Feel_the_Fear_and_Do_It_Anyway",
+        link: "https://www.goodreads.com/search?q=Dracula",
         rating: 4.0,
       },
       {
         id: "2",
-        title: "The Confidence Code",
-        description: "Research-based guide to building confidence and overcoming self-doubt",
+        title: "The Shining",
+        description: "A family snowed in at a haunted hotel as the father slowly unravels",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/18693653",
-        rating: 3.9,
+        link: "https://www.goodreads.com/search?q=The%20Shining",
+        rating: 4.3,
       },
       {
         id: "3",
-        title: "Daring Greatly",
-        description: "Brené Brown's powerful book about vulnerability, courage, and overcoming fear",
+        title: "Bird Box",
+        description: "A mother must lead her children blindfolded through a world where one glimpse can kill",
         image: "/placeholder.svg?height=250&width=180&text=📚",
-        link: "https://www.goodreads.com/book/show/13588356",
-        rating: 4.3,
+        link: "https://www.goodreads.com/search?q=Bird%20Box",
+        rating: 4.0,
       },
     ],
   }
@@ -1023,102 +957,238 @@ function getFallbackBooks(emotion: Emotion): Recommendation[] {
   return fallbacks[emotion] || fallbacks.neutral
 }
 
+interface RecommendationSet {
+  movies: Recommendation[]
+  songs: Recommendation[]
+  books: Recommendation[]
+  // Whether the content recommender answered, rather than the route's own fetchers
+  enhanced: boolean
+}
+
+// Transform the content recommender's items to match existing frontend expectations. Ids are the
+// providers' own, so a session can tell what it has already been shown.
+const fromRecommender: { [key in ContentCategory]: (item: any) => Recommendation } = {
+  movies: (movie) => ({
+    id: movie.id,
+    title: movie.title,
+    description: movie.overview?.substring(0, 100) + "..." || "No description available",
+    image: movie.poster_url || "/placeholder.svg?height=200&width=150&text=Movie",
+    link: movie.imdb_url || `https://www.imdb.com/title/${movie.id}`,
+    rating: movie.rating
+  }),
+  songs: (song) => ({
+    id: song.id,
+    title: `${song.name} - ${song.artist}`,
+    description: `${song.album} • ${song.duration}`,
+    image: song.image_url || "/placeholder.svg?height=200&width=200&text=Song",
+    link: song.external_url || `https://open.spotify.com/search/${encodeURIComponent(song.name + ' ' + song.artist)}`,
+    rating: Math.random() * 5, // Random rating since Spotify doesn't provide this
+    preview_url: song.preview_url
+  }),
+  books: (book) => ({
+    id: book.id,
+    title: book.title,
+    description: book.description?.substring(0, 100) + "..." || "No description available",
+    image: book.thumbnail || "/placeholder.svg?height=250&width=180&text=Book",
+    link: `https://www.google.com/search?q=${encodeURIComponent(book.title + ' book')}`,
+    rating: book.rating || Math.random() * 5
+  }),
+}
+
+/**
+ * Recommendations for one emotion: the content recommender first, the route's own fetchers if it
+ * fails. With a session the recommender skips what the session has seen and goes deeper instead,
+ * and every list, canned fallbacks included, drops titles already shown; a category that has run
+ * out comes back empty rather than repeating itself.
+ */
+async function recommendationsFor(emotion: Emotion, point?: CircumplexPoint, sessionId?: string): Promise<RecommendationSet> {
+  const unseen = (category: ContentCategory, items: Recommendation[]) =>
+    sessionId ? recommendationSessions.unseen(sessionId, category, items) : items
+
+  try {
+    const page = (category: ContentCategory) => sessionId ? recommendationSessions.pageState(sessionId, emotion, category) : undefined
+
+    // Use enhanced content recommender with comprehensive API integration
+    const recommendations = await contentRecommender.getRecommendations(emotion, point && audioTargetsFor(emotion, point), undefined, {
+      movies: page("movies"),
+      music: page("songs"),
+      books: page("books"),
+    })
+
+    const transformedMovies = unseen("movies", recommendations.movies.map(fromRecommender.movies))
+    const transformedSongs = unseen("songs", recommendations.music.map(fromRecommender.songs))
+    const transformedBooks = unseen("books", recommendations.books.map(fromRecommender.books))
+
+    // Always use OMDB movies if present, fallback only if empty
+    const moviesToReturn = transformedMovies.length > 0 ? transformedMovies : unseen("movies", getFallbackMovies(emotion))
+    const songsToReturn = transformedSongs.length > 0 ? transformedSongs : unseen("songs", getFallbackSongs(emotion))
+    const booksToReturn = transformedBooks.length > 0 ? transformedBooks : unseen("books", getGoodreadsStyleBooks(emotion))
+
+    if (moviesToReturn.length > 0 || songsToReturn.length > 0 || booksToReturn.length > 0) {
+      console.log(`✅ Enhanced recommendations successful for ${emotion}: ${moviesToReturn.length} movies, ${songsToReturn.length} songs, ${booksToReturn.length} books`)
+      return { movies: moviesToReturn, songs: songsToReturn, books: booksToReturn, enhanced: true }
+    }
+  } catch (enhancedError) {
+    console.error("❌ Enhanced recommender failed, falling back to original logic:", enhancedError)
+  }
+
+  // Fallback to original logic if enhanced recommender fails
+  const [movies, songs, books] = await Promise.allSettled([
+    fetchMovies(emotion),
+    fetchSpotifySongs(emotion, point),
+    fetchBooks(emotion),
+  ])
+
+  // Extract results, using fallbacks if any promise was rejected
+  const moviesResult = unseen("movies", movies.status === "fulfilled" ? movies.value : getFallbackMovies(emotion))
+  const songsResult = unseen("songs", songs.status === "fulfilled" ? songs.value : getFallbackSongs(emotion))
+  const booksResult = unseen("books", books.status === "fulfilled" ? books.value : getFallbackBooks(emotion))
+
+  console.log(`✅ Fallback recommendations for ${emotion}: ${moviesResult.length} movies, ${songsResult.length} songs, ${booksResult.length} books`)
+
+  return { movies: moviesResult, songs: songsResult, books: booksResult, enhanced: false }
+}
+
+/**
+ * The next page of a cursor's category, mixed like the first. Only the content recommender can
+ * page, so once it runs dry (or isn't configured) this is empty rather than canned fallbacks.
+ */
+async function moreFor(sessionId: string, { category, blend, point }: RecommendationCursor): Promise<Recommendation[]> {
+  const lists = await Promise.all(blend.map(async (component) => {
+    const { emotion } = component
+    const page = recommendationSessions.pageState(sessionId, emotion, category)
+    try {
+      const items = category === "movies"
+        ? await contentRecommender.getMovieRecommendations(emotion, undefined, page)
+        : category === "songs"
+          ? await contentRecommender.getMusicRecommendations(emotion, point && audioTargetsFor(emotion, point), undefined, page)
+          : await contentRecommender.getBookRecommendations(emotion, undefined, page)
+      return { ...component, items: recommendationSessions.unseen(sessionId, category, items.map(fromRecommender[category])) }
+    } catch (error) {
+      console.error(`❌ Could not load more ${emotion} ${category}:`, error)
+      return { ...component, items: [] }
+    }
+  }))
+
+  return blendLists(lists)
+}
+
+/**
+ * Recommend for one `emotion`, a whole `emotions` distribution, or a `valence`/`arousal` point.
+ * A distribution (or the one a point implies) is turned into a proportional mix of each strong
+ * emotion's picks; every item carries the `emotion` that drove it and `blend` lists the shares.
+ * A single emotion with a point, as the detector sends, still nudges the music toward the point.
+ * `strategy` picks what the mix is for: "match" (the default) the current mood, or "uplift",
+ * "calm" and "energize" a goal state, reached from the current mood.
+ *
+ * With a `session` id nothing already shown to that session is recommended again, and the
+ * response has a "more like this" cursor per category. Sending { session, cursor } instead returns
+ * that category's next `items` and a `next_cursor`, null once the providers have nothing new.
+ */
 export async function POST(request: NextRequest) {
+  // Neutral until the request says otherwise, so even the last-resort fallback follows its strategy
+  let blend: BlendComponent[] = [{ emotion: "neutral", share: 1 }]
+
   try {
-    const { emotion } = await request.json()
+    const { emotion, emotions, valence, arousal, strategy = "match", session, cursor } = await request.json()
+
+    if (session !== undefined && (typeof session !== "string" || !SESSION_ID_PATTERN.test(session))) {
+      return NextResponse.json({ error: "session must be 8-64 letters, digits, dashes or underscores" }, { status: 400 })
+    }
+    if (cursor !== undefined) {
+      if (!session) {
+        return NextResponse.json({ error: "A cursor needs the session it was issued to" }, { status: 400 })
+      }
+      const state = typeof cursor === "string" ? recommendationSessions.getCursor(session, cursor) : undefined
+      if (!state) {
+        return NextResponse.json({ error: "Unknown or expired cursor; load recommendations again" }, { status: 404 })
+      }
+
+      const items = await moreFor(session, state)
+      recommendationSessions.markSeen(session, state.category, items)
+      if (items.length === 0) {
+        recommendationSessions.closeCursor(session, cursor)
+      }
+
+      console.log(`➕ ${items.length} more ${state.category} for session ${session}`)
+      return NextResponse.json({ category: state.category, items, next_cursor: items.length > 0 ? cursor : null })
+    }
+
+    if (!isRecommendationStrategy(strategy)) {
+      return NextResponse.json({ error: `strategy must be one of ${RECOMMENDATION_STRATEGIES.join(", ")}` }, { status: 400 })
+    }
 
-    if (!emotion || !emotionConfig[emotion as Emotion]) {
+    if (emotion !== undefined && !EMOTIONS.includes(emotion)) {
       return NextResponse.json({ error: "Invalid emotion provided" }, { status: 400 })
     }
+    if (emotions !== undefined && !isEmotionDistribution(emotions)) {
+      return NextResponse.json({ error: "emotions must map emotion names to non-negative scores, at least one above zero" }, { status: 400 })
+    }
 
-    console.log(`🎭 Getting recommendations for emotion: ${emotion}`)
-    // Log OMDB API key for debugging
-    const omdbApiKey = process.env.OMDB_API_KEY || process.env.NEXT_PUBLIC_OMDB_API_KEY;
-    console.log('OMDB API Key used:', omdbApiKey ? omdbApiKey.substring(0, 8) + '...' : 'Not set');
+    // Optional circumplex position from the detection response; both or neither
+    const point = valence === undefined && arousal === undefined ? undefined : { valence, arousal }
+    if (point && !isCircumplexPoint(point)) {
+      return NextResponse.json({ error: "valence and arousal must both be numbers between -1 and 1" }, { status: 400 })
+    }
+    if (!emotion && !emotions && !point) {
+      return NextResponse.json({ error: "Provide an emotion, an emotions distribution, or valence and arousal" }, { status: 400 })
+    }
+
+    // A broken mapping file is a configuration error, not something to paper over with fallback content
     try {
-      // Use enhanced content recommender with comprehensive API integration
-      const recommendations = await contentRecommender.getRecommendations(emotion)
-
-      // Transform the data to match existing frontend expectations
-      const transformedMovies = recommendations.movies.map((movie: any) => ({
-        id: movie.id,
-        title: movie.title,
-        description: movie.overview?.substring(0, 100) + "..." || "No description available",
-        image: movie.poster_url || "/placeholder.svg?height=200&width=150&text=Movie",
-        link: movie.imdb_url || `https://www.imdb.com/title/${movie.id}`,
-        rating: movie.rating
-      }))
-
-      const transformedSongs = recommendations.music.map((song: any) => ({
-        id: Math.random().toString(36).substr(2, 9), // Generate random ID
-        title: `${song.name} - ${song.artist}`,
-        description: `${song.album} • ${song.duration}`,
-        image: song.image_url || "/placeholder.svg?height=200&width=200&text=Song",
-        link: song.external_url || `https://open.spotify.com/search/${encodeURIComponent(song.name + ' ' + song.artist)}`,
-        rating: Math.random() * 5, // Random rating since Spotify doesn't provide this
-        preview_url: song.preview_url
-      }))
-
-      const transformedBooks = recommendations.books.map((book: any) => ({
-        id: Math.random().toString(36).substr(2, 9), // Generate random ID
-        title: book.title,
-        description: book.description?.substring(0, 100) + "..." || "No description available",
-        image: book.thumbnail || "/placeholder.svg?height=250&width=180&text=Book",
-        link: `https://www.google.com/search?q=${encodeURIComponent(book.title + ' book')}`,
-        rating: book.rating || Math.random() * 5
-      }))
-
-      // Always use OMDB movies if present, fallback only if empty
-      const moviesToReturn = transformedMovies.length > 0 ? transformedMovies : getFallbackMovies(emotion as Emotion);
-      const songsToReturn = transformedSongs.length > 0 ? transformedSongs : getFallbackSongs(emotion as Emotion);
-      const booksToReturn = transformedBooks.length > 0 ? transformedBooks : getGoodreadsStyleBooks(emotion as Emotion);
-
-      if (moviesToReturn.length > 0 || songsToReturn.length > 0 || booksToReturn.length > 0) {
-        console.log(`✅ Enhanced recommendations successful: ${moviesToReturn.length} movies, ${songsToReturn.length} songs, ${booksToReturn.length} books`)
-        return NextResponse.json({
-          movies: moviesToReturn,
-          songs: songsToReturn,
-          books: booksToReturn,
-          spotify_available: spotifyClient.isSpotifyAvailable(),
-          omdb_configured: !!omdbApiKey,
-          enhanced_backend: true
-        })
-      }
-    } catch (enhancedError) {
-      console.error("❌ Enhanced recommender failed, falling back to original logic:", enhancedError)
+      loadEmotionMappings()
+    } catch (mappingError) {
+      console.error("❌ Emotion mappings unavailable:", mappingError)
+      return NextResponse.json(
+        { error: mappingError instanceof Error ? mappingError.message : "Emotion mappings unavailable" },
+        { status: 500 }
+      )
     }
 
-    // Fallback to original logic if enhanced recommender fails
-    const [movies, songs, books] = await Promise.allSettled([
-      fetchMovies(emotion as Emotion),
-      fetchSpotifySongs(emotion as Emotion),
-      fetchBooks(emotion as Emotion),
-    ])
+    const current = emotions || (emotion ? { [emotion as Emotion]: 1 } : emotionsFromCoordinates(point!.valence, point!.arousal))
+    blend = blendComponents(strategyDistribution(strategy, current))
+    const goal = strategyGoal(strategy)
 
-    // Extract results, using fallbacks if any promise was rejected
-    const moviesResult = movies.status === "fulfilled" ? movies.value : getFallbackMovies(emotion as Emotion)
-    const songsResult = songs.status === "fulfilled" ? songs.value : getFallbackSongs(emotion as Emotion)
-    const booksResult = books.status === "fulfilled" ? books.value : getFallbackBooks(emotion as Emotion)
+    console.log(`🎭 Getting ${strategy} recommendations for ${blend.map(({ emotion, share }) => `${emotion} ${Math.round(share * 100)}%`).join(", ")}`)
+    // Log OMDB API key for debugging
+    const omdbApiKey = process.env.OMDB_API_KEY || process.env.NEXT_PUBLIC_OMDB_API_KEY;
+    console.log('OMDB API Key used:', omdbApiKey ? omdbApiKey.substring(0, 8) + '...' : 'Not set');
 
-    console.log(`✅ Fallback recommendations: ${moviesResult.length} movies, ${songsResult.length} songs, ${booksResult.length} books`)
+    // Shifting strategies steer every component's music toward the goal. When matching, a blend
+    // keeps each emotion's own targets; shifting them all toward one point would make them alike.
+    const musicPoint = goal || (blend.length === 1 ? point : undefined)
+    const sets = await Promise.all(blend.map((component) => recommendationsFor(component.emotion, musicPoint, session)))
+    const mixed = {} as { [key in ContentCategory]: Recommendation[] }
+    const cursors = {} as { [key in ContentCategory]: string }
+    for (const category of CONTENT_CATEGORIES) {
+      mixed[category] = blendLists(blend.map((component, index) => ({ ...component, items: sets[index][category] })))
+      if (session) {
+        recommendationSessions.markSeen(session, category, mixed[category])
+        cursors[category] = recommendationSessions.openCursor(session, { category, blend, point: musicPoint })
+      }
+    }
 
     return NextResponse.json({
-      movies: moviesResult,
-      songs: songsResult,
-      books: booksResult,
+      ...mixed,
+      ...(session && { cursors }),
+      blend,
+      strategy,
+      ...(goal && { target: goal }),
       spotify_available: spotifyClient.isSpotifyAvailable(),
-      omdb_configured: !!(process.env.OMDB_API_KEY || process.env.NEXT_PUBLIC_OMDB_API_KEY),
-      enhanced_backend: false
+      omdb_configured: !!omdbApiKey,
+      enhanced_backend: sets.every((set) => set.enhanced)
     })
   } catch (error) {
     console.error("❌ Error in recommendations API:", error)
 
-    // Return fallback recommendations for all categories
-    const emotion = "neutral" as Emotion
+    // Return fallback recommendations for all categories, mixed like the picks would have been
+    const fallback = (lists: (emotion: Emotion) => Recommendation[]) =>
+      blendLists(blend.map((component) => ({ ...component, items: lists(component.emotion) })))
     return NextResponse.json({
-      movies: getFallbackMovies(emotion),
-      songs: getFallbackSongs(emotion),
-      books: getFallbackBooks(emotion),
+      movies: fallback(getFallbackMovies),
+      songs: fallback(getFallbackSongs),
+      books: fallback(getFallbackBooks),
+      blend,
       spotify_available: false,
       omdb_configured: false,
       enhanced_backend: false,
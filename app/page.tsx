@@ -2,13 +2,21 @@
 
 import { useState, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { Loader2, Sparkles, Heart, Brain, Music, Book, Film, Camera, Zap, Star } from "lucide-react"
+import { Loader2, Sparkles, Heart, Brain, Music, Book, Film, Camera, Zap, Star, Sun, Leaf } from "lucide-react"
 
 import { EnhancedRecommendationCard } from "@/components/enhanced-recommendation-card"
 import { EnhancedEmotionDetector } from "@/components/enhanced-emotion-detector"
+import { TextMoodInput } from "@/components/text-mood-input"
 
 type Emotion = "happy" | "sad" | "angry" | "surprised" | "neutral" | "disgust" | "fear"
 
+type EmotionOutcome = "confident" | "mixed" | "uncertain"
+
+// Whether recommendations should validate the mood or move it somewhere
+type RecommendationStrategy = "match" | "uplift" | "calm" | "energize"
+
+type RecommendationCategory = "movies" | "songs" | "books"
+
 interface Recommendation {
   id: string
   title: string
@@ -17,12 +25,102 @@ interface Recommendation {
   link: string
   rating?: number
   preview_url?: string
+  // Which part of the mood this pick is for
+  emotion?: Emotion
+}
+
+interface BlendComponent {
+  emotion: Emotion
+  share: number
 }
 
 interface EmotionData {
   emotion: Emotion
   confidence: number
   timestamp: number
+  // Circumplex position, -1..1
+  valence?: number
+  arousal?: number
+  allEmotions?: { [key in Emotion]: number }
+  outcome?: EmotionOutcome
+  candidates?: Emotion[]
+  groupMood?: {
+    emotion: Emotion
+    confidence: number
+    allEmotions?: { [key in Emotion]: number }
+    valence?: number
+    arousal?: number
+    faceCount: number
+    outcome?: EmotionOutcome
+    candidates?: Emotion[]
+  }
+  stability?: number
+}
+
+interface Mood {
+  emotion: Emotion
+  confidence: number
+  // The full distribution, so recommendations can mix in the runners-up
+  allEmotions?: { [key in Emotion]: number }
+  valence?: number
+  arousal?: number
+  faceCount: number
+  outcome?: EmotionOutcome
+  candidates?: Emotion[]
+}
+
+// Below this a burst disagreed with itself too much to be worth reshuffling every recommendation
+const MIN_REFRESH_STABILITY = 0.6
+// Same emotion but this far across the valence/arousal plane (e.g. content vs. ecstatic) also refreshes
+const MIN_REFRESH_SHIFT = 0.35
+
+// On a shared screen with several people in frame, recommend for the room rather than one face
+function roomMood(emotionData: EmotionData): Mood {
+  if (emotionData.groupMood && emotionData.groupMood.faceCount > 1) {
+    return emotionData.groupMood
+  }
+  return {
+    emotion: emotionData.emotion,
+    confidence: emotionData.confidence,
+    allEmotions: emotionData.allEmotions,
+    valence: emotionData.valence,
+    arousal: emotionData.arousal,
+    faceCount: 1,
+    outcome: emotionData.outcome,
+    candidates: emotionData.candidates,
+  }
+}
+
+// A mood the user picked themselves: no distribution or coordinates, so recommendations are for that emotion alone
+function confirmedMood(emotion: Emotion, faceCount: number): Mood {
+  return { emotion, confidence: 1, faceCount, outcome: "confident", candidates: [emotion] }
+}
+
+function moodShift(from: Mood, to: Mood): number {
+  if (from.valence === undefined || from.arousal === undefined || to.valence === undefined || to.arousal === undefined) {
+    return 0
+  }
+  return Math.hypot(to.valence - from.valence, to.arousal - from.arousal)
+}
+
+const strategyOptions: { value: RecommendationStrategy; label: string; heading: string; icon: typeof Heart }[] = [
+  { value: "match", label: "Match my mood", heading: "Perfect for", icon: Heart },
+  { value: "uplift", label: "Lift me up", heading: "To lift", icon: Sun },
+  { value: "calm", label: "Calm me down", heading: "To calm", icon: Leaf },
+  { value: "energize", label: "Energize me", heading: "To energize", icon: Zap },
+]
+
+const STRATEGY_STORAGE_KEY = "moodify-recommendation-strategy"
+const SESSION_STORAGE_KEY = "moodify-recommendation-session"
+
+// One id per tab, so the server can skip titles already shown here, even across a reload
+function recommendationSession() {
+  let sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY)
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId)
+  }
+  return sessionId
 }
 
 const emotionEmojis = {
@@ -55,25 +153,53 @@ export default function MoodifyApp() {
   }>({ movies: [], songs: [], books: [] })
   const [isLoadingRecommendations, setIsLoadingRecommendations] = useState(false)
   const [showWelcome, setShowWelcome] = useState(true)
+  const [recommendedMood, setRecommendedMood] = useState<Mood | null>(null)
+  const [recommendationBlend, setRecommendationBlend] = useState<BlendComponent[]>([])
+  // "More like this" cursors; a category without one has nothing more to give
+  const [cursors, setCursors] = useState<Partial<Record<RecommendationCategory, string>>>({})
+  const [loadingMore, setLoadingMore] = useState<RecommendationCategory | null>(null)
+  const [strategy, setStrategy] = useState<RecommendationStrategy>("match")
+  // What the recommendations on screen were fetched for, which lags the toggle while loading
+  const [recommendedStrategy, setRecommendedStrategy] = useState<RecommendationStrategy>("match")
+  // A mixed or uncertain reading waiting for the user to say which mood they meant
+  const [pendingMood, setPendingMood] = useState<Mood | null>(null)
+  const [showAllMoods, setShowAllMoods] = useState(false)
 
   useEffect(() => {
     const timer = setTimeout(() => setShowWelcome(false), 3000)
     return () => clearTimeout(timer)
   }, [])
 
-  const fetchRecommendations = async (emotion: Emotion) => {
+  useEffect(() => {
+    const stored = localStorage.getItem(STRATEGY_STORAGE_KEY)
+    if (strategyOptions.some(({ value }) => value === stored)) {
+      setStrategy(stored as RecommendationStrategy)
+    }
+  }, [])
+
+  const fetchRecommendations = async ({ emotion, allEmotions, valence, arousal }: Mood, withStrategy = strategy) => {
     setIsLoadingRecommendations(true)
 
     try {
+      // With the distribution the server mixes in picks for strong runners-up; emotion is the fallback
       const response = await fetch("/api/recommendations", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ emotion }),
+        body: JSON.stringify({
+          ...(allEmotions ? { emotions: allEmotions } : { emotion }),
+          valence,
+          arousal,
+          strategy: withStrategy,
+          session: recommendationSession(),
+        }),
       })
 
       if (response.ok) {
         const data = await response.json()
         setRecommendations(data)
+        setCursors(data.cursors || {})
+        setRecommendationBlend(data.blend || [])
+        setRecommendedStrategy(data.strategy || "match")
       }
     } catch (error) {
       console.error("Error fetching recommendations:", error)
@@ -82,8 +208,73 @@ export default function MoodifyApp() {
     }
   }
 
-  const backgroundGradient = currentEmotion 
-    ? `bg-gradient-to-br ${emotionColors[currentEmotion.emotion]}`
+  const loadMore = async (category: RecommendationCategory) => {
+    const cursor = cursors[category]
+    if (!cursor) return
+    setLoadingMore(category)
+
+    try {
+      const response = await fetch("/api/recommendations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ session: recommendationSession(), cursor }),
+      })
+
+      // An expired cursor (say, after a server restart) just retires the button
+      const data = response.ok ? await response.json() : null
+      setCursors((prev) => ({ ...prev, [category]: data?.next_cursor || undefined }))
+      if (data?.items?.length) {
+        setRecommendations((prev) => ({ ...prev, [category]: [...prev[category], ...data.items] }))
+      }
+    } catch (error) {
+      console.error(`Error loading more ${category}:`, error)
+    } finally {
+      setLoadingMore(null)
+    }
+  }
+
+  const handleEmotionDetected = (emotionData: EmotionData) => {
+    setCurrentEmotion(emotionData)
+
+    // Only refresh when the mood actually changed and the reading is steady
+    const mood = roomMood(emotionData)
+    const isConfident = !mood.outcome || mood.outcome === "confident"
+    // A clear reading settles any question still on screen
+    if (isConfident) setPendingMood(null)
+    const isStable = emotionData.stability === undefined || emotionData.stability >= MIN_REFRESH_STABILITY
+    const changed = !recommendedMood
+      || mood.emotion !== recommendedMood.emotion
+      || moodShift(recommendedMood, mood) >= MIN_REFRESH_SHIFT
+    if (!changed || !(isStable || recommendedMood === null)) return
+
+    // Don't silently act on a guess: ask which mood it is first
+    if (!isConfident) {
+      setPendingMood(mood)
+      setShowAllMoods(false)
+      return
+    }
+    setRecommendedMood(mood)
+    fetchRecommendations(mood)
+  }
+
+  // Blending sends the reading's whole distribution, so the picks are a mix of the candidates
+  const resolvePendingMood = (mood: Mood) => {
+    setPendingMood(null)
+    setRecommendedMood(mood)
+    fetchRecommendations(mood)
+  }
+
+  const changeStrategy = (next: RecommendationStrategy) => {
+    setStrategy(next)
+    localStorage.setItem(STRATEGY_STORAGE_KEY, next)
+    // State updates are async, so the new strategy is passed along rather than read back
+    if (recommendedMood) fetchRecommendations(recommendedMood, next)
+  }
+
+  const currentMood = currentEmotion ? roomMood(currentEmotion) : null
+
+  const backgroundGradient = currentMood
+    ? `bg-gradient-to-br ${emotionColors[currentMood.emotion]}`
     : "bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900"
 
   return (
@@ -212,7 +403,7 @@ export default function MoodifyApp() {
 
         {/* Current Emotion Display */}
         <AnimatePresence>
-          {currentEmotion && (
+          {currentMood && (
             <motion.div
               className="text-center mb-6 sm:mb-8 px-4"
               initial={{ opacity: 0, scale: 0.8 }}
@@ -226,14 +417,17 @@ export default function MoodifyApp() {
                   animate={{ scale: [1, 1.2, 1] }}
                   transition={{ duration: 1, repeat: Infinity }}
                 >
-                  {emotionEmojis[currentEmotion.emotion]}
+                  {emotionEmojis[currentMood.emotion]}
                 </motion.div>
                 <div className="text-left">
                   <h3 className="text-xl sm:text-2xl font-bold text-white capitalize">
-                    {currentEmotion.emotion}
+                    {currentMood.emotion}
                   </h3>
                   <p className="text-sm sm:text-base text-white/70">
-                    {Math.round(currentEmotion.confidence * 100)}% confidence
+                    {Math.round(currentMood.confidence * 100)}% confidence
+                    {currentMood.outcome === "mixed" && " · mixed"}
+                    {currentMood.outcome === "uncertain" && " · uncertain"}
+                    {currentMood.faceCount > 1 && ` · group of ${currentMood.faceCount}`}
                   </p>
                 </div>
                 <motion.div
@@ -248,6 +442,95 @@ export default function MoodifyApp() {
           )}
         </AnimatePresence>
 
+        {/* Mood Confirmation */}
+        <AnimatePresence>
+          {pendingMood && (
+            <motion.div
+              className="max-w-2xl mx-auto mb-6 sm:mb-8 px-4"
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <div className="card-glass-strong rounded-2xl p-4 sm:p-6 text-center text-white">
+                <h3 className="text-lg sm:text-xl font-semibold mb-1">
+                  {pendingMood.outcome === "mixed"
+                    ? `Somewhere between ${(pendingMood.candidates || []).join(" and ")}?`
+                    : "Not quite sure how you feel"}
+                </h3>
+                <p className="text-sm text-white/70 mb-4">
+                  {pendingMood.outcome === "mixed"
+                    ? "Pick the one that fits, or get a blend of both."
+                    : "The reading was weak - which of these is closest?"}
+                </p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {(pendingMood.candidates || []).map((emotion) => (
+                    <button
+                      key={emotion}
+                      className="px-4 py-2 rounded-full bg-white/20 hover:bg-white/30 transition-colors capitalize"
+                      onClick={() => resolvePendingMood(confirmedMood(emotion, pendingMood.faceCount))}
+                    >
+                      {emotionEmojis[emotion]} {emotion}
+                    </button>
+                  ))}
+                  <button
+                    className="px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                    onClick={() => resolvePendingMood(pendingMood)}
+                  >
+                    <Zap className="w-4 h-4 inline mr-1" />
+                    {pendingMood.outcome === "mixed" ? "Blend both" : "Use the reading anyway"}
+                  </button>
+                  <button
+                    className="px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                    onClick={() => setShowAllMoods(!showAllMoods)}
+                  >
+                    Something else
+                  </button>
+                </div>
+                {showAllMoods && (
+                  <div className="flex flex-wrap justify-center gap-2 mt-3">
+                    {(Object.keys(emotionEmojis) as Emotion[])
+                      .filter((emotion) => !pendingMood.candidates?.includes(emotion))
+                      .map((emotion) => (
+                        <button
+                          key={emotion}
+                          className="px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 transition-colors text-sm capitalize"
+                          onClick={() => resolvePendingMood(confirmedMood(emotion, pendingMood.faceCount))}
+                        >
+                          {emotionEmojis[emotion]} {emotion}
+                        </button>
+                      ))}
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Recommendation Strategy */}
+        <motion.div
+          className="flex flex-wrap justify-center items-center gap-2 mb-6 sm:mb-8 px-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.6 }}
+        >
+          <span className="text-sm text-white/70 mr-1">Recommend to</span>
+          {strategyOptions.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              className={`flex items-center gap-1 px-3 sm:px-4 py-2 rounded-full text-xs sm:text-sm font-medium border backdrop-blur-sm transition-colors ${
+                strategy === value
+                  ? "bg-white/30 border-white/50 text-white"
+                  : "bg-white/10 border-white/20 text-white/80 hover:bg-white/20"
+              }`}
+              onClick={() => changeStrategy(value)}
+              aria-pressed={strategy === value}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </motion.div>
+
         {/* Enhanced Emotion Detection */}
         <motion.div
           initial={{ opacity: 0, y: 50 }}
@@ -255,10 +538,21 @@ export default function MoodifyApp() {
           transition={{ duration: 0.8, delay: 0.3 }}
         >
           <EnhancedEmotionDetector
-            onEmotionDetected={(emotionData) => {
-              setCurrentEmotion(emotionData)
-              fetchRecommendations(emotionData.emotion)
-            }}
+            onEmotionDetected={handleEmotionDetected}
+            isDetecting={isDetecting}
+            setIsDetecting={setIsDetecting}
+          />
+        </motion.div>
+
+        {/* Camera-free Text Input */}
+        <motion.div
+          className="mt-6 sm:mt-8"
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8, delay: 0.5 }}
+        >
+          <TextMoodInput
+            onEmotionDetected={handleEmotionDetected}
             isDetecting={isDetecting}
             setIsDetecting={setIsDetecting}
           />
@@ -266,7 +560,7 @@ export default function MoodifyApp() {
 
         {/* Recommendations Section */}
         <AnimatePresence>
-          {currentEmotion && (
+          {recommendedMood && (
             <motion.div
               className="space-y-6 sm:space-y-8 mt-8 sm:mt-12 px-4"
               initial={{ opacity: 0, y: 50 }}
@@ -280,9 +574,10 @@ export default function MoodifyApp() {
                   animate={{ opacity: 1 }}
                   transition={{ delay: 0.2 }}
                 >
-                  Perfect for your {" "}
-                  <span className={`bg-gradient-to-r ${emotionColors[currentEmotion.emotion]} bg-clip-text text-transparent`}>
-                    {currentEmotion.emotion}
+                  {strategyOptions.find(({ value }) => value === recommendedStrategy)?.heading}{" "}
+                  {recommendedMood.faceCount > 1 ? "the room's" : "your"} {" "}
+                  <span className={`bg-gradient-to-r ${emotionColors[recommendedMood.emotion]} bg-clip-text text-transparent`}>
+                    {recommendedMood.emotion}
                   </span>
                   {" "} mood
                 </motion.h2>
@@ -295,6 +590,11 @@ export default function MoodifyApp() {
                   Our AI has curated these personalized recommendations just for you, 
                   using advanced emotion recognition and content matching algorithms.
                 </motion.p>
+                {recommendationBlend.length > 1 && (
+                  <p className="mt-3 text-sm sm:text-base text-white/70 capitalize">
+                    A mix of {recommendationBlend.map(({ emotion, share }) => `${emotionEmojis[emotion]} ${Math.round(share * 100)}% ${emotion}`).join(" · ")}
+                  </p>
+                )}
               </div>
 
               {isLoadingRecommendations ? (
@@ -333,6 +633,8 @@ export default function MoodifyApp() {
                       items={recommendations.movies} 
                       type="movie"
                       gradient="from-red-500/20 to-pink-500/20"
+                      onLoadMore={cursors.movies ? () => loadMore("movies") : undefined}
+                      isLoadingMore={loadingMore === "movies"}
                     />
                   </motion.div>
 
@@ -346,6 +648,8 @@ export default function MoodifyApp() {
                       items={recommendations.songs} 
                       type="song"
                       gradient="from-green-500/20 to-emerald-500/20"
+                      onLoadMore={cursors.songs ? () => loadMore("songs") : undefined}
+                      isLoadingMore={loadingMore === "songs"}
                     />
                   </motion.div>
 
@@ -359,6 +663,8 @@ export default function MoodifyApp() {
                       items={recommendations.books} 
                       type="book"
                       gradient="from-blue-500/20 to-indigo-500/20"
+                      onLoadMore={cursors.books ? () => loadMore("books") : undefined}
+                      isLoadingMore={loadingMore === "books"}
                     />
                   </motion.div>
                 </motion.div>
@@ -381,7 +687,7 @@ export default function MoodifyApp() {
               transition={{ duration: 2, repeat: Infinity }}
             >
               <Camera className="w-6 h-6" />
-              <span>Click the camera above to start your emotion analysis</span>
+              <span>Start the camera or tell us how you feel to begin</span>
               <Sparkles className="w-6 h-6" />
             </motion.div>
           </motion.div>
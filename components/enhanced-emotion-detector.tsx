@@ -21,18 +21,118 @@ import {
   Activity,
   Shield,
   Wifi,
-  WifiOff
+  WifiOff,
+  Users,
+  Mic,
+  Radio,
+  Square,
+  SlidersHorizontal,
+  RotateCcw,
+  ScanFace,
+  Upload
 } from "lucide-react"
+import type {
+  DetectionErrorBody,
+  EmotionDetectionResponse,
+  ServiceMode,
+  TemporalConsensus,
+  VideoTimelinePoint,
+} from "@/lib/emotion-providers/types"
+import { encodeWav } from "@/lib/wav"
 
 type Emotion = "happy" | "sad" | "angry" | "surprised" | "neutral" | "disgust" | "fear"
 
+interface FaceData {
+  boundingBox?: { top: number; left: number; width: number; height: number }
+  emotion: Emotion
+  confidence: number
+}
+
+type EmotionOutcome = "confident" | "mixed" | "uncertain"
+
+interface GroupMood {
+  emotion: Emotion
+  confidence: number
+  allEmotions: { [key in Emotion]: number }
+  valence?: number
+  arousal?: number
+  faceCount: number
+  outcome?: EmotionOutcome
+  candidates?: Emotion[]
+}
+
 interface EmotionData {
   emotion: Emotion
   confidence: number
   timestamp: number
   allEmotions?: { [key in Emotion]: number }
+  // Circumplex position, -1..1
+  valence?: number
+  arousal?: number
+  // Mixed or uncertain reads should be confirmed by the user before acting on them
+  outcome?: EmotionOutcome
+  candidates?: Emotion[]
   faceDetected?: boolean
-  serviceMode?: "deepface_ai" | "cloud_ai" | "simulation" | "fallback"
+  faces?: FaceData[]
+  groupMood?: GroupMood
+  serviceMode?: ServiceMode
+  // How consistently a multi-frame burst agreed on the emotion, 0..1
+  stability?: number
+  // Ensemble mode: which providers' own answers matched the fused emotion
+  ensemble?: { agreement: number; agreed: string[]; disagreed: string[] }
+  // Local landmark-geometry read of the primary face, explaining the emotion
+  expression?: ExpressionData
+}
+
+interface ExpressionData {
+  emotion: Emotion
+  confidence: number
+  contributions: { feature: string; value: number; contribution: number }[]
+  agreesWithProvider: boolean
+}
+
+// Subset of GET /api/emotion-detection/health that the badge uses
+interface ProviderHealth {
+  id: string
+  enabled: boolean
+  configured: boolean
+  reachable: boolean | null
+  latency_ms: { last: number; average: number } | null
+  last_error: { message: string; at: string } | null
+}
+
+// Returned by POST /api/emotion-detection/calibrate and sent back with every camera detection
+interface NeutralBaseline {
+  all_emotions: { [key in Emotion]: number }
+  frame_count: number
+  service_used: string
+  // Measured on fused ensemble scores
+  ensemble?: boolean
+  captured_at: string
+}
+
+interface DetectionError {
+  message: string
+  // DetectionErrorCode from the API; absent for client-side failures
+  code?: string
+  retryable?: boolean
+}
+
+interface LiveTimelineEntry {
+  frameIndex: number
+  emotion: Emotion
+  confidence: number
+  // Smoothed mood after this frame
+  mood: Emotion
+  // Position in an uploaded video
+  timestampMs?: number
+}
+
+interface UploadPreview {
+  file: File
+  url: string
+  kind: "photo" | "video"
+  name: string
 }
 
 interface EnhancedEmotionDetectorProps {
@@ -61,6 +161,148 @@ const emotionColors = {
   fear: "from-indigo-400 to-purple-600"
 }
 
+// What the user can do about each API error code
+const errorGuidance: { [code: string]: string } = {
+  invalid_request: "The request was malformed. Reload the page and try again.",
+  invalid_image: "The captured frame couldn't be read. Restart the camera and try again.",
+  unsupported_format: "Use a JPEG or PNG image.",
+  image_too_small: "Your camera resolution is too low. Move closer or pick a better camera.",
+  image_too_large: "The image is too large even after compression. Try a smaller one.",
+  no_face: "Center your face in the frame, look at the camera and make sure your face is well lit.",
+  poor_quality: "Your face was found but the shot isn't clear enough. Follow the hints on the camera view.",
+  no_speech: "Speak clearly for the whole clip, a little closer to the microphone.",
+  auth_invalid: "The detection service credentials are invalid. The site owner needs to update the API key and secret.",
+  quota_exhausted: "The detection service account is out of credit. The site owner needs to top it up.",
+  rate_limited: "Too many requests right now. Wait a few seconds, then retry.",
+  provider_timeout: "The detection service took too long to answer.",
+  provider_unreachable: "The detection service can't be reached right now.",
+  provider_error: "The detection service returned an unexpected error.",
+  no_provider: "No real detection service is configured on this server.",
+  service_unavailable: "No detection service is available right now.",
+  internal_error: "Something went wrong on our side.",
+}
+
+// Short capture hints shown over the camera, one per quality issue reported by the API
+const qualityHints: { [issue: string]: string } = {
+  too_dark: "More light",
+  too_bright: "Too much light",
+  face_too_small: "Move closer",
+  occluded: "Uncover your face",
+  extreme_pose: "Face the camera",
+  too_blurry: "Hold still",
+  low_quality: "Clean the lens or improve lighting",
+}
+
+function toDetectionError(result: DetectionErrorBody, fallback: string): DetectionError {
+  return { message: result.error || fallback, code: result.code, retryable: !!result.retryable }
+}
+
+// Plain-language names for the landmark features, as [lowered, raised]
+const expressionFeatureLabels: { [feature: string]: [string, string] } = {
+  mouth_curvature: ["Mouth corners down", "Mouth corners up"],
+  brow_raise: ["Brows lowered", "Brows raised"],
+  eye_openness: ["Eyes narrowed", "Eyes wide"],
+  mouth_opening: ["Mouth closed", "Mouth open"],
+}
+
+const providerLabels: { [key: string]: string } = {
+  deepface: "DeepFace",
+  faceplus: "Face++ API",
+  simulation: "Simulation",
+}
+
+// One detection = a short burst of frames smoothed server-side, so a blink can't decide the mood
+const BURST_FRAMES = 5
+const BURST_WINDOW_MS = 2000
+// Live mode frame rates offered in the UI, frames per second
+const LIVE_FPS_OPTIONS = [0.5, 1, 2]
+const LIVE_TIMELINE_LENGTH = 30
+// Neutral-face calibration: a few relaxed frames, kept in this browser only
+const CALIBRATION_FRAMES = 5
+const CALIBRATION_WINDOW_MS = 3000
+const BASELINE_STORAGE_KEY = "moodify.neutral-baseline"
+const VOICE_CLIP_MS = 5000
+const VOICE_SAMPLE_RATE = 16000
+
+// Reproducible demo mode: ?seed=demo replays the same simulated emotions, ?timeline=happy,sad scripts them
+function simulationParams(step: number) {
+  if (typeof window === "undefined") return undefined
+
+  const params = new URLSearchParams(window.location.search)
+  const seed = params.get("seed")
+  const timeline = params.get("timeline")
+  if (!seed && !timeline) return undefined
+
+  return {
+    step,
+    ...(seed && { seed }),
+    ...(timeline && { timeline: timeline.split(",").map((emotion) => emotion.trim()) }),
+  }
+}
+
+// Map an /api/emotion-detection* response onto the detector's EmotionData; bursts add their consensus
+function toEmotionData(result: EmotionDetectionResponse & { consensus?: TemporalConsensus }): EmotionData {
+  return {
+    emotion: result.emotion as Emotion,
+    confidence: result.confidence || 0.5,
+    timestamp: Date.now(),
+    allEmotions: result.all_emotions,
+    valence: result.valence,
+    arousal: result.arousal,
+    outcome: result.outcome,
+    candidates: result.candidates,
+    faceDetected: result.face_detected,
+    faces: (result.faces || []).map((face) => ({
+      boundingBox: face.bounding_box,
+      emotion: face.emotion,
+      confidence: face.confidence,
+    })),
+    groupMood: result.group_mood && {
+      emotion: result.group_mood.emotion,
+      confidence: result.group_mood.confidence,
+      allEmotions: result.group_mood.all_emotions,
+      valence: result.group_mood.valence,
+      arousal: result.group_mood.arousal,
+      faceCount: result.group_mood.face_count,
+      outcome: result.group_mood.outcome,
+      candidates: result.group_mood.candidates,
+    },
+    serviceMode: result.service_mode || "simulation",
+    stability: result.consensus?.stability,
+    ensemble: result.ensemble,
+    expression: result.expression && {
+      emotion: result.expression.emotion,
+      confidence: result.expression.confidence,
+      contributions: result.expression.contributions,
+      agreesWithProvider: result.expression.agrees_with_provider,
+    },
+  }
+}
+
+// Decode whatever the browser recorded, downmix and resample to 16 kHz mono, and wrap it as a WAV data URL
+async function recordingToWavDataUrl(recording: Blob): Promise<string> {
+  const audioContext = new AudioContext()
+  try {
+    const decoded = await audioContext.decodeAudioData(await recording.arrayBuffer())
+    const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * VOICE_SAMPLE_RATE), VOICE_SAMPLE_RATE)
+    const source = offline.createBufferSource()
+    source.buffer = decoded
+    source.connect(offline.destination)
+    source.start()
+    const rendered = await offline.startRendering()
+
+    const wav = encodeWav({ samples: rendered.getChannelData(0), sampleRate: VOICE_SAMPLE_RATE })
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsDataURL(new Blob([wav], { type: "audio/wav" }))
+    })
+  } finally {
+    audioContext.close()
+  }
+}
+
 export function EnhancedEmotionDetector({
   onEmotionDetected,
   isDetecting,
@@ -70,55 +312,70 @@ export function EnhancedEmotionDetector({
   const [currentEmotion, setCurrentEmotion] = useState<EmotionData | null>(null)
   const [cameraError, setCameraError] = useState<string | null>(null)
   const [serviceMode, setServiceMode] = useState<"checking" | "online" | "simulation">("checking")
-  const [detectionError, setDetectionError] = useState<string | null>(null)
+  const [detectionError, setDetectionError] = useState<DetectionError | null>(null)
   const [isClient, setIsClient] = useState(false)
   const [detectionCount, setDetectionCount] = useState(0)
   const [faceDetectionActive, setFaceDetectionActive] = useState(false)
   const [forceRealDetection, setForceRealDetection] = useState(false)
   const [realApiConfigured, setRealApiConfigured] = useState(false)
+  const [providerHealth, setProviderHealth] = useState<ProviderHealth[]>([])
+  const [activeProvider, setActiveProvider] = useState<string | null>(null)
+  const [qualityIssues, setQualityIssues] = useState<string[]>([])
+  const [baseline, setBaseline] = useState<NeutralBaseline | null>(null)
+  const [isCalibrating, setIsCalibrating] = useState(false)
+  const [showBaseline, setShowBaseline] = useState(false)
 
   const videoRef = useRef<HTMLVideoElement>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null)
+  const [inputMode, setInputMode] = useState<"camera" | "voice" | "upload">("camera")
+  const [uploadPreview, setUploadPreview] = useState<UploadPreview | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isRecording, setIsRecording] = useState(false)
+  const [isLive, setIsLive] = useState(false)
+  const [liveFps, setLiveFps] = useState(1)
+  const [liveTimeline, setLiveTimeline] = useState<LiveTimelineEntry[]>([])
+  const eventSourceRef = useRef<EventSource | null>(null)
+  const liveFrameInFlightRef = useRef(false)
+  const liveStepRef = useRef(0)
 
   useEffect(() => {
     setIsClient(true)
     checkServiceStatus()
+
+    try {
+      const stored = localStorage.getItem(BASELINE_STORAGE_KEY)
+      if (stored) setBaseline(JSON.parse(stored))
+    } catch (error) {
+      localStorage.removeItem(BASELINE_STORAGE_KEY)
+    }
   }, [])
 
+  // Provider status comes from the cached health endpoint, so loading the page costs no detection calls
   const checkServiceStatus = useCallback(async () => {
     try {
-      // Test with a small image to check service availability
-      const response = await fetch("/api/emotion-detection", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          image: "data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAYEBQYFBAYGBQYHBwYIChAKCgkJChQODwwQFxQYGBcUFhYaHSUfGhsjHBYWICwgIyYnKSopGR8tMC0oMCUoKSj/2wBDAQcHBwoIChMKChMoGhYaKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCj/wAARCAABAAEDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAv/xAAhEAACAQMDBQAAAAAAAAAAAAABAgMABAUGIWGRkqGx0f/EABUBAQEAAAAAAAAAAAAAAAAAAAMF/8QAGhEAAgIDAAAAAAAAAAAAAAAAAAECEgMRkf/aAAwDAQACEQMRAD8AltJagyeH0AthI5xdrLcNM91BF5pX2HaH9bcfaSXWGaRmknyJckliyjqTzSlT54b6bk+h0R//2Q==",
-          forceRealDetection: true
-        }),
-      })
+      const response = await fetch("/api/emotion-detection/health")
+      const report = await response.json()
 
-      const result = await response.json()
+      if (!response.ok || !report.success) {
+        throw new Error(report.error || "Health check failed")
+      }
 
-      if (response.ok) {
-        // Real API detection succeeded
-        setServiceMode("online")
-        setRealApiConfigured(true)
-      } else if (result.service_mode === "error" || result.service_mode === "faceplus_error" || result.service_mode === "no_real_service") {
-        // Real API not configured or failed
-        setServiceMode("simulation")
-        setRealApiConfigured(false)
-        if (forceRealDetection) {
-          setDetectionError(result.error || "Real emotion detection service not available")
-        }
-      } else {
-        setServiceMode("simulation")
-        setRealApiConfigured(false)
+      setProviderHealth(report.providers)
+      setActiveProvider(report.active_provider)
+      setRealApiConfigured(!!report.active_provider)
+      setServiceMode(report.active_provider ? "online" : "simulation")
+
+      if (!report.active_provider && forceRealDetection) {
+        setDetectionError({ message: "Real emotion detection service not available", code: "no_provider" })
       }
     } catch (error) {
       setServiceMode("simulation")
       setRealApiConfigured(false)
+      setActiveProvider(null)
     }
   }, [forceRealDetection])
 
@@ -161,6 +418,11 @@ export function EnhancedEmotionDetector({
       clearInterval(detectionIntervalRef.current)
       detectionIntervalRef.current = null
     }
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
+    setIsLive(false)
     setIsCameraActive(false)
     setFaceDetectionActive(false)
     setCameraError(null)
@@ -194,45 +456,56 @@ export function EnhancedEmotionDetector({
 
     ctx.clearRect(0, 0, targetWidth, targetHeight)
     ctx.drawImage(video, 0, 0, targetWidth, targetHeight)
+    setFrameSize({ width: targetWidth, height: targetHeight })
 
     return canvas.toDataURL("image/jpeg", 0.85)
   }, [])
 
+  // Capture `count` frames spread evenly over `windowMs`
+  const captureBurst = useCallback(async (count: number, windowMs: number) => {
+    const frames: string[] = []
+    for (let i = 0; i < count; i++) {
+      if (i > 0) {
+        await new Promise((resolve) => setTimeout(resolve, windowMs / (count - 1)))
+      }
+      const frameData = captureFrame()
+      if (!frameData) {
+        throw new Error("Failed to capture video frame")
+      }
+      frames.push(frameData)
+    }
+    return frames
+  }, [captureFrame])
+
   const detectEmotion = useCallback(async () => {
-    if (!isCameraActive || isDetecting) return
+    if (!isCameraActive || isDetecting || isCalibrating) return
 
     setIsDetecting(true)
     setDetectionError(null)
 
     try {
-      const frameData = captureFrame()
-      if (!frameData) {
-        throw new Error("Failed to capture video frame")
-      }
+      const frames = await captureBurst(BURST_FRAMES, BURST_WINDOW_MS)
 
-      const response = await fetch("/api/emotion-detection", {
+      const response = await fetch("/api/emotion-detection/batch", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          image: frameData,
-          forceRealDetection: forceRealDetection
+          frames,
+          forceRealDetection: forceRealDetection,
+          simulation: simulationParams(detectionCount * BURST_FRAMES),
+          baseline,
         }),
       })
 
       const result = await response.json()
+      setQualityIssues(result.success ? result.quality?.issues || [] : result.quality_issues || [])
 
-      if (!result.success && result.error) {
-        setDetectionError(result.error)
+      if (!result.success) {
+        setDetectionError(toDetectionError(result, "Detection failed"))
+        return
       }
 
-      const emotionData: EmotionData = {
-        emotion: result.emotion as Emotion,
-        confidence: result.confidence || 0.5,
-        timestamp: Date.now(),
-        allEmotions: result.all_emotions,
-        faceDetected: result.face_detected,
-        serviceMode: result.service_mode || "simulation",
-      }
+      const emotionData = toEmotionData(result)
 
       setCurrentEmotion(emotionData)
       onEmotionDetected(emotionData)
@@ -244,11 +517,266 @@ export function EnhancedEmotionDetector({
       }
 
     } catch (error) {
-      setDetectionError(error instanceof Error ? error.message : "Detection failed")
+      setDetectionError({ message: error instanceof Error ? error.message : "Detection failed", retryable: true })
     } finally {
       setIsDetecting(false)
     }
-  }, [isCameraActive, isDetecting, captureFrame, onEmotionDetected, setIsDetecting])
+  }, [isCameraActive, isDetecting, isCalibrating, captureBurst, onEmotionDetected, setIsDetecting, detectionCount, baseline])
+
+  // Learn what this user's relaxed face reads as, so a resting "sad" or "angry" stops being reported
+  const calibrate = useCallback(async () => {
+    if (!isCameraActive || isDetecting || isCalibrating || isLive) return
+
+    setIsCalibrating(true)
+    setDetectionError(null)
+
+    try {
+      const frames = await captureBurst(CALIBRATION_FRAMES, CALIBRATION_WINDOW_MS)
+      const response = await fetch("/api/emotion-detection/calibrate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ frames, forceRealDetection }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setDetectionError(toDetectionError(result, "Calibration failed"))
+        return
+      }
+
+      setBaseline(result.baseline)
+      setShowBaseline(true)
+      localStorage.setItem(BASELINE_STORAGE_KEY, JSON.stringify(result.baseline))
+    } catch (error) {
+      setDetectionError({ message: error instanceof Error ? error.message : "Calibration failed" })
+    } finally {
+      setIsCalibrating(false)
+    }
+  }, [isCameraActive, isDetecting, isCalibrating, isLive, captureBurst, forceRealDetection])
+
+  const resetCalibration = useCallback(() => {
+    setBaseline(null)
+    setShowBaseline(false)
+    localStorage.removeItem(BASELINE_STORAGE_KEY)
+  }, [])
+
+  const stopLive = useCallback(() => {
+    if (detectionIntervalRef.current) {
+      clearInterval(detectionIntervalRef.current)
+      detectionIntervalRef.current = null
+    }
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
+    setIsLive(false)
+  }, [])
+
+  // Continuous mode: frames go up at liveFps, smoothed results come back over Server-Sent Events
+  const startLive = useCallback(() => {
+    if (!isCameraActive || isLive || isDetecting || isCalibrating) return
+
+    const sessionId = crypto.randomUUID()
+    const events = new EventSource(`/api/emotion-detection/live?session=${sessionId}`)
+    eventSourceRef.current = events
+    setDetectionError(null)
+    setLiveTimeline([])
+
+    events.addEventListener("frame", (message) => {
+      const event = JSON.parse((message as MessageEvent).data)
+      const emotionData = toEmotionData({
+        ...event.result,
+        emotion: event.consensus.emotion,
+        confidence: event.consensus.confidence,
+        all_emotions: event.consensus.all_emotions,
+        valence: event.consensus.valence,
+        arousal: event.consensus.arousal,
+        outcome: event.consensus.outcome,
+        candidates: event.consensus.candidates,
+        consensus: event.consensus,
+      })
+
+      setCurrentEmotion(emotionData)
+      setQualityIssues(event.result.quality?.issues || [])
+      setLiveTimeline(prev => [
+        ...prev,
+        { frameIndex: event.frame_index, emotion: event.result.emotion, confidence: event.result.confidence, mood: event.mood },
+      ].slice(-LIVE_TIMELINE_LENGTH))
+      setDetectionCount(prev => prev + 1)
+      setDetectionError(null)
+      setServiceMode(event.result.service_mode === "simulation" ? "simulation" : "online")
+
+      // Recommendations follow the smoothed mood, not every frame
+      if (event.mood_changed) {
+        onEmotionDetected(emotionData)
+      }
+    })
+
+    events.addEventListener("frame_error", (message) => {
+      // Live mode keeps sending frames, so there's nothing to retry by hand
+      const event = JSON.parse((message as MessageEvent).data)
+      setDetectionError({ message: event.error, code: event.code })
+      setQualityIssues(event.quality_issues || [])
+    })
+
+    // The browser would keep reconnecting while frames still went up with nobody listening, so
+    // stop live mode and say why instead
+    events.onerror = () => {
+      if (eventSourceRef.current !== events) return
+      stopLive()
+      setDetectionError({ message: "Lost the connection to live detection - start live mode again" })
+    }
+
+    detectionIntervalRef.current = setInterval(async () => {
+      // Skip a tick rather than pile up uploads when the network or provider is slow
+      if (liveFrameInFlightRef.current) return
+
+      const frameData = captureFrame()
+      if (!frameData) return
+
+      liveFrameInFlightRef.current = true
+      try {
+        await fetch("/api/emotion-detection/live", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            session: sessionId,
+            image: frameData,
+            forceRealDetection: forceRealDetection,
+            simulation: simulationParams(liveStepRef.current++),
+            baseline,
+          }),
+        })
+      } catch (error) {
+        setDetectionError({ message: "Live frame upload failed - check your connection" })
+      } finally {
+        liveFrameInFlightRef.current = false
+      }
+    }, 1000 / liveFps)
+
+    setIsLive(true)
+  }, [isCameraActive, isLive, isDetecting, isCalibrating, liveFps, captureFrame, onEmotionDetected, forceRealDetection, baseline, stopLive])
+
+  const recordVoice = useCallback(async () => {
+    if (isRecording || isDetecting) return
+
+    setDetectionError(null)
+    let stream: MediaStream | null = null
+
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true } })
+      const recorder = new MediaRecorder(stream)
+      const chunks: Blob[] = []
+      recorder.ondataavailable = (event) => chunks.push(event.data)
+      const stopped = new Promise<void>((resolve) => {
+        recorder.onstop = () => resolve()
+      })
+
+      setIsRecording(true)
+      recorder.start()
+      await new Promise((resolve) => setTimeout(resolve, VOICE_CLIP_MS))
+      recorder.stop()
+      await stopped
+      setIsRecording(false)
+
+      setIsDetecting(true)
+      const audio = await recordingToWavDataUrl(new Blob(chunks, { type: recorder.mimeType }))
+
+      const response = await fetch("/api/emotion-detection/voice", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ audio }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        setDetectionError(toDetectionError(result, "Voice analysis failed"))
+        return
+      }
+
+      const emotionData = toEmotionData(result)
+      setCurrentEmotion(emotionData)
+      onEmotionDetected(emotionData)
+      setDetectionCount(prev => prev + 1)
+    } catch (error) {
+      setDetectionError(
+        error instanceof DOMException && error.name === "NotAllowedError"
+          ? { message: "Unable to access microphone. Please grant microphone permissions." }
+          : { message: error instanceof Error ? error.message : "Voice analysis failed", retryable: true }
+      )
+    } finally {
+      stream?.getTracks().forEach((track) => track.stop())
+      setIsRecording(false)
+      setIsDetecting(false)
+    }
+  }, [isRecording, isDetecting, onEmotionDetected, setIsDetecting])
+
+  // Photos and short clips for when there is no webcam; streamed to the server as multipart, never base64
+  const analyzeUpload = useCallback(async (file: File) => {
+    if (isDetecting) return
+
+    const kind = file.type.startsWith("image/") ? "photo" : file.type.startsWith("video/") ? "video" : null
+    if (!kind) {
+      setDetectionError({ message: "Choose a photo or a video clip", code: "unsupported_format" })
+      return
+    }
+
+    setUploadPreview((previous) => {
+      if (previous) URL.revokeObjectURL(previous.url)
+      return { file, url: URL.createObjectURL(file), kind, name: file.name }
+    })
+    setIsDetecting(true)
+    setDetectionError(null)
+
+    try {
+      const form = new FormData()
+      form.append("forceRealDetection", String(forceRealDetection))
+      const simulation = simulationParams(detectionCount * BURST_FRAMES)
+      if (simulation) form.append("simulation", JSON.stringify(simulation))
+      form.append("file", file)
+
+      const response = await fetch("/api/emotion-detection/upload", { method: "POST", body: form })
+      const result = await response.json()
+      setQualityIssues(result.success ? result.quality?.issues || [] : result.quality_issues || [])
+
+      if (!result.success) {
+        setDetectionError(toDetectionError(result, "Upload analysis failed"))
+        return
+      }
+
+      const emotionData = toEmotionData(result)
+      setCurrentEmotion(emotionData)
+      onEmotionDetected(emotionData)
+      setDetectionCount(prev => prev + 1)
+
+      // A clip comes back as a per-second timeline; show it in the same strip as live mode
+      setLiveTimeline((result.timeline || [])
+        .map((point: VideoTimelinePoint, index: number) => point.success && {
+          frameIndex: index,
+          emotion: point.emotion,
+          confidence: point.confidence,
+          mood: result.emotion,
+          timestampMs: point.timestamp_ms,
+        })
+        .filter(Boolean))
+
+      if (result.service_mode) {
+        setServiceMode(result.service_mode === "simulation" ? "simulation" : "online")
+      }
+    } catch (error) {
+      setDetectionError({ message: error instanceof Error ? error.message : "Upload analysis failed", retryable: true })
+    } finally {
+      setIsDetecting(false)
+    }
+  }, [isDetecting, forceRealDetection, detectionCount, onEmotionDetected, setIsDetecting])
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    const file = event.dataTransfer.files[0]
+    if (file) analyzeUpload(file)
+  }, [analyzeUpload])
 
   const getServiceIcon = () => {
     if (forceRealDetection && !realApiConfigured) {
@@ -272,7 +800,7 @@ export function EnhancedEmotionDetector({
 
     switch (serviceMode) {
       case "online":
-        return realApiConfigured ? "Face++ API Active" : "Cloud AI Active"
+        return activeProvider ? `${providerLabels[activeProvider] || activeProvider} Active` : "Cloud AI Active"
       case "simulation":
         return forceRealDetection ? "Real API Unavailable" : "Demo Mode"
       default:
@@ -280,6 +808,18 @@ export function EnhancedEmotionDetector({
     }
   }
 
+  // One line per provider for the badge tooltip
+  const getServiceDetails = () =>
+    providerHealth
+      .filter((provider) => provider.enabled)
+      .map((provider) => {
+        const state = !provider.configured ? "not configured" : provider.reachable ? "reachable" : "unreachable"
+        const latency = provider.latency_ms ? ` · ${provider.latency_ms.average}ms avg` : ""
+        const lastError = provider.last_error ? ` · last error: ${provider.last_error.message}` : ""
+        return `${providerLabels[provider.id] || provider.id}: ${state}${latency}${lastError}`
+      })
+      .join("\n")
+
   useEffect(() => {
     return () => {
       stopCamera()
@@ -308,11 +848,147 @@ export function EnhancedEmotionDetector({
                     Live Emotion Detection
                   </motion.h3>
 
+                  {/* Service Status */}
+                  <div className="mb-3">
+                    <Badge
+                      variant="secondary"
+                      title={getServiceDetails() || undefined}
+                      onClick={checkServiceStatus}
+                      className="gap-1.5 cursor-pointer bg-white/10 text-white hover:bg-white/20"
+                    >
+                      {getServiceIcon()}
+                      {getServiceText()}
+                    </Badge>
+                  </div>
+
+                  {/* Input Mode Toggle */}
+                  <div className="inline-flex gap-1 p-1 rounded-xl bg-white/10 border border-white/20">
+                    {([
+                      { mode: "camera", icon: Camera, label: "Camera" },
+                      { mode: "voice", icon: Mic, label: "Voice" },
+                      { mode: "upload", icon: Upload, label: "Upload" },
+                    ] as const).map(({ mode, icon: Icon, label }) => (
+                      <Button
+                        key={mode}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setInputMode(mode)}
+                        disabled={isRecording || isLive}
+                        className={`rounded-lg text-white hover:bg-white/20 hover:text-white ${inputMode === mode ? "bg-white/20" : ""}`}
+                      >
+                        <Icon className="w-4 h-4 mr-1" />
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
                 </div>
 
+                {/* Voice Recorder */}
+                {inputMode === "voice" && (
+                  <div className="space-y-4 sm:space-y-6">
+                    <div className="relative rounded-2xl aspect-video flex items-center justify-center bg-gradient-to-br from-gray-800 to-gray-900 text-white">
+                      <div className="text-center">
+                        <motion.div
+                          animate={isRecording ? { scale: [1, 1.2, 1] } : { scale: 1 }}
+                          transition={{ duration: 1, repeat: isRecording ? Infinity : 0 }}
+                        >
+                          <Mic className={`w-12 h-12 sm:w-16 sm:h-16 mx-auto mb-4 ${isRecording ? "text-red-400" : "opacity-50"}`} />
+                        </motion.div>
+                        <p className="text-base sm:text-lg font-medium">
+                          {isRecording ? "Listening..." : isDetecting ? "Analyzing your voice..." : "Voice Ready"}
+                        </p>
+                        <p className="text-xs sm:text-sm opacity-75 mt-1">
+                          Speak naturally for {VOICE_CLIP_MS / 1000} seconds — analyzed on our server, never sent to third parties
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex justify-center">
+                      <Button
+                        onClick={recordVoice}
+                        disabled={!isClient || isRecording || isDetecting}
+                        className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-8 py-3 rounded-xl font-medium shadow-lg"
+                      >
+                        {isRecording || isDetecting ? (
+                          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                        ) : (
+                          <Mic className="w-5 h-5 mr-2" />
+                        )}
+                        {isRecording ? "Recording..." : isDetecting ? "Analyzing..." : `Record ${VOICE_CLIP_MS / 1000}s Clip`}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Photo / Video Upload */}
+                {inputMode === "upload" && (
+                  <div className="space-y-4 sm:space-y-6">
+                    <div
+                      onDragOver={(event) => {
+                        event.preventDefault()
+                        setIsDragging(true)
+                      }}
+                      onDragLeave={() => setIsDragging(false)}
+                      onDrop={handleDrop}
+                      onClick={() => !isDetecting && fileInputRef.current?.click()}
+                      className={`relative rounded-2xl aspect-video overflow-hidden flex items-center justify-center cursor-pointer bg-gradient-to-br from-gray-800 to-gray-900 text-white border-2 border-dashed ${isDragging ? "border-blue-400" : "border-white/20"}`}
+                    >
+                      {uploadPreview?.kind === "photo" && (
+                        <img src={uploadPreview.url} alt={uploadPreview.name} className="absolute inset-0 w-full h-full object-contain" />
+                      )}
+                      {uploadPreview?.kind === "video" && (
+                        <video src={uploadPreview.url} muted playsInline controls className="absolute inset-0 w-full h-full object-contain" />
+                      )}
+                      {(!uploadPreview || isDetecting) && (
+                        <div className="relative text-center bg-black/40 rounded-xl p-4">
+                          {isDetecting ? (
+                            <Loader2 className="w-12 h-12 sm:w-16 sm:h-16 mx-auto mb-4 animate-spin" />
+                          ) : (
+                            <Upload className="w-12 h-12 sm:w-16 sm:h-16 mx-auto mb-4 opacity-50" />
+                          )}
+                          <p className="text-base sm:text-lg font-medium">
+                            {isDetecting
+                              ? uploadPreview?.kind === "video" ? "Analyzing your clip..." : "Analyzing your photo..."
+                              : "Drop a photo or short video"}
+                          </p>
+                          <p className="text-xs sm:text-sm opacity-75 mt-1">
+                            Videos are sampled once per second, up to 30 seconds
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*,video/*"
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0]
+                        if (file) analyzeUpload(file)
+                        event.target.value = ""
+                      }}
+                    />
+
+                    <div className="flex justify-center">
+                      <Button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={!isClient || isDetecting}
+                        className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-8 py-3 rounded-xl font-medium shadow-lg"
+                      >
+                        {isDetecting ? (
+                          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                        ) : (
+                          <Upload className="w-5 h-5 mr-2" />
+                        )}
+                        {isDetecting ? "Analyzing..." : uploadPreview ? "Choose Another File" : "Choose Photo or Video"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Camera Feed */}
                 <motion.div
-                  className="relative bg-black rounded-2xl overflow-hidden aspect-video shadow-inner"
+                  className={`relative bg-black rounded-2xl overflow-hidden aspect-video shadow-inner ${inputMode === "camera" ? "" : "hidden"}`}
                   whileHover={{ scale: 1.02 }}
                   transition={{ duration: 0.3 }}
                 >
@@ -339,6 +1015,35 @@ export function EnhancedEmotionDetector({
                     />
                   )}
 
+                  {/* Per-face Bounding Boxes */}
+                  {isCameraActive && frameSize && currentEmotion?.faces?.map((face, index) =>
+                    face.boundingBox ? (
+                      <div
+                        key={index}
+                        className="absolute border-2 border-white/80 rounded-md pointer-events-none"
+                        style={{
+                          left: `${(face.boundingBox.left / frameSize.width) * 100}%`,
+                          top: `${(face.boundingBox.top / frameSize.height) * 100}%`,
+                          width: `${(face.boundingBox.width / frameSize.width) * 100}%`,
+                          height: `${(face.boundingBox.height / frameSize.height) * 100}%`,
+                        }}
+                      >
+                        <span className="absolute -top-7 left-0 text-lg">{emotionEmojis[face.emotion]}</span>
+                      </div>
+                    ) : null
+                  )}
+
+                  {/* Capture Hints */}
+                  {isCameraActive && qualityIssues.length > 0 && (
+                    <div className="absolute bottom-3 left-3 right-3 flex flex-wrap justify-center gap-2 pointer-events-none">
+                      {qualityIssues.map((issue) => qualityHints[issue] && (
+                        <span key={issue} className="px-3 py-1 rounded-full bg-black/60 text-white text-xs sm:text-sm backdrop-blur-sm">
+                          {qualityHints[issue]}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Camera Inactive Overlay */}
                   {!isCameraActive && (
                     <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-gray-800 to-gray-900">
@@ -362,6 +1067,23 @@ export function EnhancedEmotionDetector({
                     </div>
                   )}
 
+                  {/* Calibration Prompt */}
+                  <AnimatePresence>
+                    {isCalibrating && (
+                      <motion.div
+                        className="absolute inset-0 bg-black/30 flex items-end justify-center pb-6 pointer-events-none"
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                      >
+                        <div className="text-center text-white">
+                          <p className="text-base sm:text-lg font-medium">Relax your face and look at the camera</p>
+                          <p className="text-xs sm:text-sm opacity-75">Capturing your neutral expression...</p>
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+
                   {/* Detection Processing Overlay */}
                   <AnimatePresence>
                     {isDetecting && (
@@ -392,7 +1114,7 @@ export function EnhancedEmotionDetector({
                 </motion.div>
 
                 {/* Camera Controls */}
-                <div className="flex justify-center gap-4">
+                <div className={`flex justify-center gap-4 ${inputMode === "camera" ? "" : "hidden"}`}>
                   <AnimatePresence mode="wait">
                     {!isCameraActive ? (
                       <motion.div
@@ -420,7 +1142,7 @@ export function EnhancedEmotionDetector({
                       >
                         <Button
                           onClick={detectEmotion}
-                          disabled={isDetecting}
+                          disabled={isDetecting || isLive || isCalibrating}
                           className="bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white px-6 py-3 rounded-xl font-medium shadow-lg"
                         >
                           {isDetecting ? (
@@ -430,6 +1152,14 @@ export function EnhancedEmotionDetector({
                           )}
                           {isDetecting ? "Analyzing..." : "Detect Emotion"}
                         </Button>
+                        <Button
+                          onClick={isLive ? stopLive : startLive}
+                          disabled={isDetecting || isCalibrating}
+                          className={`${isLive ? "bg-red-500 hover:bg-red-600" : "bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"} text-white px-6 py-3 rounded-xl font-medium shadow-lg`}
+                        >
+                          {isLive ? <Square className="w-5 h-5 mr-2" /> : <Radio className="w-5 h-5 mr-2" />}
+                          {isLive ? "Stop Live" : "Go Live"}
+                        </Button>
                         <Button
                           onClick={stopCamera}
                           variant="outline"
@@ -443,6 +1173,77 @@ export function EnhancedEmotionDetector({
                   </AnimatePresence>
                 </div>
 
+                {/* Live Frame Rate */}
+                {isCameraActive && inputMode === "camera" && (
+                  <div className="flex items-center justify-center gap-2 text-white/70 text-sm">
+                    <span>Live rate</span>
+                    {LIVE_FPS_OPTIONS.map((fps) => (
+                      <Button
+                        key={fps}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setLiveFps(fps)}
+                        disabled={isLive}
+                        className={`h-7 px-2 rounded-lg text-white hover:bg-white/20 hover:text-white ${liveFps === fps ? "bg-white/20" : ""}`}
+                      >
+                        {fps} fps
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Neutral-face Calibration */}
+                {isCameraActive && inputMode === "camera" && (
+                  <div className="text-white/70 text-sm">
+                    <div className="flex items-center justify-center gap-2">
+                      {baseline ? (
+                        <>
+                          <button type="button" onClick={() => setShowBaseline(!showBaseline)} className="underline-offset-2 hover:underline">
+                            Calibrated ({baseline.ensemble ? "ensemble" : providerLabels[baseline.service_used] || baseline.service_used})
+                          </button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={resetCalibration}
+                            disabled={isCalibrating}
+                            className="h-7 px-2 rounded-lg text-white hover:bg-white/20 hover:text-white"
+                          >
+                            <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                            Reset
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={calibrate}
+                          disabled={isDetecting || isLive || isCalibrating}
+                          className="h-7 px-2 rounded-lg text-white hover:bg-white/20 hover:text-white"
+                        >
+                          {isCalibrating ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <SlidersHorizontal className="w-3.5 h-3.5 mr-1" />}
+                          Calibrate neutral face
+                        </Button>
+                      )}
+                    </div>
+                    {baseline && showBaseline && (
+                      <div className="mt-2 mx-auto max-w-xs space-y-1">
+                        <p className="text-xs text-center text-white/50">
+                          Your resting face, from {baseline.frame_count} frames on {new Date(baseline.captured_at).toLocaleDateString()}
+                        </p>
+                        {Object.entries(baseline.all_emotions)
+                          .sort(([, a], [, b]) => b - a)
+                          .map(([emotion, score]) => (
+                            <div key={emotion} className="flex items-center gap-2 text-xs">
+                              <span className="w-16 capitalize">{emotion}</span>
+                              <Progress value={score * 100} className="h-1.5 flex-1" />
+                              <span className="w-10 text-right">{Math.round(score * 100)}%</span>
+                            </div>
+                          ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Error Display */}
                 <AnimatePresence>
                   {(cameraError || detectionError) && (
@@ -454,7 +1255,25 @@ export function EnhancedEmotionDetector({
                       <Alert className="bg-red-500/10 border-red-500/20 text-white">
                         <AlertCircle className="h-4 w-4" />
                         <AlertDescription>
-                          {cameraError || detectionError}
+                          {cameraError || detectionError?.message}
+                          {!cameraError && detectionError?.code && errorGuidance[detectionError.code] && (
+                            <p className="mt-1 text-white/70">{errorGuidance[detectionError.code]}</p>
+                          )}
+                          {!cameraError && detectionError?.retryable && !isLive && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={inputMode === "voice"
+                                ? recordVoice
+                                : inputMode === "upload"
+                                  ? () => uploadPreview && analyzeUpload(uploadPreview.file)
+                                  : detectEmotion}
+                              disabled={isDetecting || isRecording || (inputMode === "camera" && !isCameraActive) || (inputMode === "upload" && !uploadPreview)}
+                              className="mt-3 bg-white/10 border-white/20 text-white hover:bg-white/20"
+                            >
+                              Try Again
+                            </Button>
+                          )}
                         </AlertDescription>
                       </Alert>
                     </motion.div>
@@ -507,10 +1326,119 @@ export function EnhancedEmotionDetector({
                             <p className="text-white/90">
                               {Math.round(currentEmotion.confidence * 100)}% confidence
                             </p>
+                            {currentEmotion.outcome === "mixed" && currentEmotion.candidates && (
+                              <p className="text-white/70 text-sm capitalize">
+                                Mixed: {currentEmotion.candidates.join(" / ")}
+                              </p>
+                            )}
+                            {currentEmotion.outcome === "uncertain" && (
+                              <p className="text-white/70 text-sm">Low confidence - just a guess</p>
+                            )}
+                            {currentEmotion.stability !== undefined && (
+                              <p className="text-white/70 text-sm">
+                                {Math.round(currentEmotion.stability * 100)}% stable
+                              </p>
+                            )}
+                            {currentEmotion.ensemble && currentEmotion.ensemble.agreed.length + currentEmotion.ensemble.disagreed.length > 1 && (
+                              <p
+                                className="text-white/70 text-sm"
+                                title={currentEmotion.ensemble.disagreed.length > 0
+                                  ? `Disagreed: ${currentEmotion.ensemble.disagreed.map((id) => providerLabels[id] || id).join(", ")}`
+                                  : undefined}
+                              >
+                                {currentEmotion.ensemble.agreed.length}/{currentEmotion.ensemble.agreed.length + currentEmotion.ensemble.disagreed.length} providers agree
+                              </p>
+                            )}
                           </div>
                         </motion.div>
                       </div>
 
+                      {/* Face geometry: an explainable second opinion */}
+                      {currentEmotion.expression && (
+                        <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                          <h4 className="font-semibold text-white mb-4 flex items-center gap-2">
+                            <ScanFace className="w-4 h-4" />
+                            Face geometry reads {emotionEmojis[currentEmotion.expression.emotion]} <span className="capitalize">{currentEmotion.expression.emotion}</span>
+                          </h4>
+                          <div className="flex flex-wrap gap-2">
+                            {currentEmotion.expression.emotion === "neutral" ? (
+                              <Badge variant="secondary" className="bg-white/10 text-white">Relaxed features</Badge>
+                            ) : (
+                              currentEmotion.expression.contributions
+                                .filter(({ contribution }) => contribution > 0)
+                                .map(({ feature, value }) => (
+                                  <Badge key={feature} variant="secondary" className="bg-white/10 text-white">
+                                    {expressionFeatureLabels[feature]?.[value > 0 ? 1 : 0] || feature}
+                                  </Badge>
+                                ))
+                            )}
+                          </div>
+                          {!currentEmotion.expression.agreesWithProvider && (
+                            <p className="text-white/70 text-sm mt-3">
+                              The geometry does not back up the {currentEmotion.emotion} reading - try another capture
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Live Timeline */}
+                      {liveTimeline.length > 0 && (
+                        <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                          <h4 className="font-semibold text-white mb-4 flex items-center gap-2">
+                            <Activity className="w-4 h-4" />
+                            {liveTimeline[0].timestampMs !== undefined ? "Video Timeline" : "Live Timeline"}
+                            {isLive && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />}
+                          </h4>
+                          <div className="flex items-end gap-1 h-16">
+                            {liveTimeline.map((entry) => (
+                              <div
+                                key={entry.frameIndex}
+                                title={`${entry.timestampMs !== undefined ? `${Math.round(entry.timestampMs / 1000)}s · ` : ""}${entry.emotion} ${Math.round(entry.confidence * 100)}% · mood ${entry.mood}`}
+                                className={`flex-1 min-w-[4px] rounded-t bg-gradient-to-t ${emotionColors[entry.emotion]}`}
+                                style={{ height: `${Math.max(10, entry.confidence * 100)}%` }}
+                              />
+                            ))}
+                          </div>
+                          <div className="flex justify-between mt-3 text-sm text-white/70">
+                            <span>
+                              {liveTimeline[0].timestampMs !== undefined ? `${liveTimeline.length} seconds sampled` : `Last ${liveTimeline.length} frames`}
+                            </span>
+                            <span className="capitalize">
+                              Smoothed mood: {emotionEmojis[liveTimeline[liveTimeline.length - 1].mood]} {liveTimeline[liveTimeline.length - 1].mood}
+                            </span>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Group Mood */}
+                      {currentEmotion.groupMood && currentEmotion.groupMood.faceCount > 1 && (
+                        <motion.div
+                          className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10"
+                          initial={{ opacity: 0, y: 20 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          transition={{ delay: 0.2 }}
+                        >
+                          <h4 className="font-semibold text-white mb-4 flex items-center gap-2">
+                            <Users className="w-4 h-4" />
+                            Group Mood · {currentEmotion.groupMood.faceCount} faces
+                          </h4>
+                          <div className="flex items-center gap-3 text-white mb-4">
+                            <span className="text-3xl">{emotionEmojis[currentEmotion.groupMood.emotion]}</span>
+                            <span className="text-xl font-bold capitalize">{currentEmotion.groupMood.emotion}</span>
+                            <span className="text-white/70">
+                              {Math.round(currentEmotion.groupMood.confidence * 100)}%
+                            </span>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {currentEmotion.faces?.map((face, index) => (
+                              <Badge key={index} variant="secondary" className="bg-white/10 text-white capitalize">
+                                {emotionEmojis[face.emotion]} {face.emotion} {Math.round(face.confidence * 100)}%
+                              </Badge>
+                            ))}
+                          </div>
+                        </motion.div>
+                      )}
+
                       {/* Emotion Distribution */}
                       {currentEmotion.allEmotions && (
                         <motion.div
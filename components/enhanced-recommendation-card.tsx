@@ -17,7 +17,9 @@ import {
   Heart,
   Download,
   Share2,
-  Sparkles
+  Sparkles,
+  Loader2,
+  ChevronDown
 } from "lucide-react"
 
 interface Recommendation {
@@ -28,6 +30,7 @@ interface Recommendation {
   link: string
   rating?: number
   preview_url?: string
+  emotion?: string
 }
 
 interface EnhancedRecommendationCardProps {
@@ -35,6 +38,9 @@ interface EnhancedRecommendationCardProps {
   items: Recommendation[]
   type: "movie" | "song" | "book"
   gradient?: string
+  // Shows a "More like this" button while there's more to fetch
+  onLoadMore?: () => void
+  isLoadingMore?: boolean
 }
 
 const typeIcons = {
@@ -53,11 +59,15 @@ export function EnhancedRecommendationCard({
   title, 
   items, 
   type, 
-  gradient 
+  gradient,
+  onLoadMore,
+  isLoadingMore = false
 }: EnhancedRecommendationCardProps) {
   const [playingPreview, setPlayingPreview] = useState<string | null>(null)
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null)
   const [hoveredItem, setHoveredItem] = useState<string | null>(null)
+  // Only worth labelling picks when they came from more than one emotion
+  const isBlended = new Set(items.map((item) => item.emotion).filter(Boolean)).size > 1
   const [likedItems, setLikedItems] = useState<Set<string>>(new Set())
 
   const TypeIcon = typeIcons[type]
@@ -174,7 +184,7 @@ export function EnhancedRecommendationCard({
                 key={item.id}
                 initial={{ opacity: 0, x: -30 }}
                 animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.1 }}
+                transition={{ delay: (index % 10) * 0.1 }}
                 onHoverStart={() => setHoveredItem(item.id)}
                 onHoverEnd={() => setHoveredItem(null)}
                 className={`relative p-3 sm:p-4 rounded-xl border border-white/10 bg-gradient-to-r ${cardGradient} backdrop-blur-sm transition-all duration-300 hover:border-white/30 hover:bg-white/20`}
@@ -259,6 +269,11 @@ export function EnhancedRecommendationCard({
 
                     {/* Metadata */}
                     <div className="flex items-center gap-3 mb-3">
+                      {isBlended && item.emotion && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-white/15 text-white/80 capitalize">
+                          {item.emotion}
+                        </span>
+                      )}
                       {item.rating && (
                         <motion.div 
                           className="flex items-center gap-1"
@@ -362,6 +377,24 @@ export function EnhancedRecommendationCard({
             ))}
           </AnimatePresence>
         </CardContent>
+
+        {onLoadMore && (
+          <div className="p-4 pt-0">
+            <Button
+              variant="outline"
+              className="w-full bg-white/10 border-white/20 text-white hover:bg-white/20 hover:border-white/40"
+              onClick={onLoadMore}
+              disabled={isLoadingMore}
+            >
+              {isLoadingMore ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <ChevronDown className="w-4 h-4 mr-2" />
+              )}
+              More like this
+            </Button>
+          </div>
+        )}
       </Card>
     </motion.div>
   )
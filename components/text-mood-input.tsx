@@ -0,0 +1,125 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Loader2, MessageSquare, Send } from "lucide-react"
+
+type Emotion = "happy" | "sad" | "angry" | "surprised" | "neutral" | "disgust" | "fear"
+
+interface EmotionData {
+  emotion: Emotion
+  confidence: number
+  timestamp: number
+  allEmotions?: { [key in Emotion]: number }
+  valence?: number
+  arousal?: number
+  outcome?: "confident" | "mixed" | "uncertain"
+  candidates?: Emotion[]
+  faceDetected?: boolean
+  serviceMode?: "text_lexicon"
+}
+
+interface TextMoodInputProps {
+  onEmotionDetected: (emotion: EmotionData) => void
+  isDetecting: boolean
+  setIsDetecting: (detecting: boolean) => void
+}
+
+const MAX_LENGTH = 1000
+
+export function TextMoodInput({ onEmotionDetected, isDetecting, setIsDetecting }: TextMoodInputProps) {
+  const [text, setText] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const analyzeText = useCallback(async () => {
+    if (!text.trim() || isDetecting) return
+
+    setIsDetecting(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/emotion-detection/text", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || "Could not analyze your text")
+        return
+      }
+
+      onEmotionDetected({
+        emotion: result.emotion as Emotion,
+        confidence: result.confidence,
+        timestamp: Date.now(),
+        allEmotions: result.all_emotions,
+        valence: result.valence,
+        arousal: result.arousal,
+        outcome: result.outcome,
+        candidates: result.candidates,
+        faceDetected: false,
+        serviceMode: "text_lexicon",
+      })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Analysis failed")
+    } finally {
+      setIsDetecting(false)
+    }
+  }, [text, isDetecting, onEmotionDetected, setIsDetecting])
+
+  return (
+    <div className="w-full max-w-6xl mx-auto px-4">
+      <Card className="card-glass-strong shadow-2xl">
+        <CardContent className="p-4 sm:p-6 space-y-4">
+          <div className="flex items-center gap-2 text-white">
+            <MessageSquare className="w-5 h-5" />
+            <h3 className="text-lg sm:text-xl font-bold">Rather type how you feel?</h3>
+          </div>
+
+          <Textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) analyzeText()
+            }}
+            maxLength={MAX_LENGTH}
+            placeholder="e.g. stressed about tomorrow's deadline"
+            className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+          />
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-white/50">
+              Analyzed on our server with a local word list — nothing is sent to third parties
+            </span>
+            <Button
+              onClick={analyzeText}
+              disabled={isDetecting || !text.trim()}
+              className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-6 rounded-xl font-medium shadow-lg"
+            >
+              {isDetecting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Analyze Mood
+            </Button>
+          </div>
+
+          <AnimatePresence>
+            {error && (
+              <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }}>
+                <Alert className="bg-red-500/10 border-red-500/20 text-white">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
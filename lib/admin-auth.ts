@@ -0,0 +1,22 @@
+import { timingSafeEqual } from "node:crypto"
+import type { NextRequest } from "next/server"
+
+/**
+ * Admin routes change server files, so they take ADMIN_TOKEN as a bearer token. Without a token
+ * configured they are only open in development, where the curator is whoever runs the server.
+ */
+export function checkAdminAccess(request: NextRequest): { error?: string; status?: number } {
+  const token = process.env.ADMIN_TOKEN
+  if (!token) {
+    return process.env.NODE_ENV === "production"
+      ? { error: "Admin routes are disabled - set ADMIN_TOKEN to enable them", status: 403 }
+      : {}
+  }
+
+  const given = Buffer.from((request.headers.get("authorization") || "").replace(/^Bearer\s+/i, ""))
+  const expected = Buffer.from(token)
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return { error: "Admin token missing or wrong", status: 401 }
+  }
+  return {}
+}
@@ -0,0 +1,68 @@
+import { EMOTIONS, type Emotion, type EmotionScores } from "@/lib/emotion-providers/types"
+
+export interface CircumplexPoint {
+  // Unpleasant (-1) to pleasant (1)
+  valence: number
+  // Calm/tired (-1) to excited/tense (1)
+  arousal: number
+}
+
+// Russell's circumplex: where each discrete label sits in valence (x) / arousal (y), both -1..1
+export const EMOTION_COORDINATES: { [key in Emotion]: CircumplexPoint } = {
+  happy: { valence: 0.8, arousal: 0.5 },
+  surprised: { valence: 0.3, arousal: 0.8 },
+  angry: { valence: -0.6, arousal: 0.8 },
+  fear: { valence: -0.7, arousal: 0.6 },
+  disgust: { valence: -0.7, arousal: 0.2 },
+  sad: { valence: -0.7, arousal: -0.5 },
+  neutral: { valence: 0, arousal: 0 },
+}
+
+// Spread of the Gaussian kernel around each label; smaller means sharper distributions
+const KERNEL_WIDTH = 0.5
+
+// Soft-assign a valence/arousal point to the seven labels by distance to each label's coordinate
+export function emotionsFromCoordinates(valence: number, arousal: number): EmotionScores {
+  // Every label is filled in below
+  const scores = {} as EmotionScores
+  let total = 0
+
+  for (const emotion of EMOTIONS) {
+    const target = EMOTION_COORDINATES[emotion]
+    const distanceSquared = (valence - target.valence) ** 2 + (arousal - target.arousal) ** 2
+    scores[emotion] = Math.exp(-distanceSquared / (2 * KERNEL_WIDTH ** 2))
+    total += scores[emotion]
+  }
+
+  for (const emotion of EMOTIONS) {
+    scores[emotion] /= total
+  }
+  return scores
+}
+
+// Inverse of emotionsFromCoordinates: the score-weighted mean of the label coordinates
+export function coordinatesFromEmotions(scores: EmotionScores): CircumplexPoint {
+  let valence = 0
+  let arousal = 0
+  let total = 0
+
+  for (const emotion of EMOTIONS) {
+    const weight = scores[emotion] || 0
+    valence += EMOTION_COORDINATES[emotion].valence * weight
+    arousal += EMOTION_COORDINATES[emotion].arousal * weight
+    total += weight
+  }
+
+  if (total === 0) return { valence: 0, arousal: 0 }
+  return { valence: roundCoordinate(valence / total), arousal: roundCoordinate(arousal / total) }
+}
+
+export function roundCoordinate(value: number): number {
+  return Number(Math.max(-1, Math.min(1, value)).toFixed(3))
+}
+
+export function isCircumplexPoint(value: unknown): value is CircumplexPoint {
+  if (!value || typeof value !== "object") return false
+  const { valence, arousal } = value as { [key: string]: unknown }
+  return [valence, arousal].every((axis) => typeof axis === "number" && Number.isFinite(axis) && axis >= -1 && axis <= 1)
+}
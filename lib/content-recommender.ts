@@ -1,3 +1,6 @@
+import { type EmotionMapping, loadEmotionMappings } from '@/lib/emotion-mappings'
+import type { Emotion } from '@/lib/emotion-providers/types'
+
 process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
 
 interface OMDBMovie {
@@ -29,6 +32,40 @@ interface SpotifyTrack {
   duration_ms: number
 }
 
+interface SpotifyAudioFeatures {
+  id: string
+  valence: number
+  energy: number
+}
+
+// Spotify audio-feature targets, both 0..1
+export interface AudioTargets {
+  valence: number
+  energy: number
+}
+
+// Where each search query has got to in its provider's results: an OMDB page, a Spotify offset
+// or a Google Books startIndex. null once the query has nothing more to give.
+export interface QueryPositions {
+  [query: string]: number | null
+}
+
+// Results each query has fetched that haven't been shown yet, served before it goes any deeper
+export interface PendingResults {
+  [query: string]: any[]
+}
+
+// Paging state for one call. Positions and pending results are updated in place.
+export interface PageState {
+  positions: QueryPositions
+  pending: PendingResults
+  // Provider ids already shown, skipped rather than returned again
+  exclude: Set<string>
+}
+
+// Most provider pages one query walks through in a single call looking for unseen results
+const MAX_PAGES_PER_CALL = 3
+
 interface GoogleBook {
   id: string
   volumeInfo: {
@@ -52,45 +89,6 @@ export class ContentRecommender {
   private googleBooksApiKey: string
   private spotifyToken: string | null = null
 
-  private emotionMappings = {
-    happy: {
-      movie_queries: ['happy', 'love', 'adventure', 'joy', 'fun'],
-      music_genres: ['pop', 'dance', 'funk', 'reggae'],
-      book_queries: ['comedy', 'romance', 'adventure', 'self-help']
-    },
-    sad: {
-      movie_queries: ['sad', 'tears', 'loss', 'grief', 'heart'],
-      music_genres: ['acoustic', 'indie', 'blues', 'soul'],
-      book_queries: ['drama', 'poetry', 'memoir', 'philosophy']
-    },
-    angry: {
-      movie_queries: ['action', 'fight', 'revenge', 'battle', 'war'],
-      music_genres: ['rock', 'metal', 'punk', 'electronic'],
-      book_queries: ['thriller', 'crime', 'politics', 'biography']
-    },
-    surprised: {
-      movie_queries: ['mystery', 'twist', 'secret', 'unexpected', 'shock'],
-      music_genres: ['experimental', 'electronic', 'world'],
-      book_queries: ['mystery', 'science fiction', 'fantasy', 'adventure']
-    },
-    fear: {
-      movie_queries: ['courage', 'brave', 'overcome', 'hope', 'escape'],
-      music_genres: ['ambient', 'classical', 'new-age', 'folk'],
-      book_queries: ['comfort', 'spirituality', 'meditation', 'healing']
-    },
-    disgust: {
-      movie_queries: ['nature', 'inspire', 'clean', 'pure', 'truth'],
-      music_genres: ['classical', 'jazz', 'world', 'folk'],
-      book_queries: ['nature', 'travel', 'art', 'culture']
-    },
-    neutral: {
-      movie_queries: ['classic', 'blockbuster', 'famous', 'top', 'movie'],
-      music_genres: ['pop', 'rock', 'indie', 'alternative'],
-      book_queries: ['bestseller', 'fiction', 'non-fiction', 'contemporary']
-    }
-  }
-
-
   constructor() {
     this.omdbApiKey = process.env.OMDB_API_KEY || process.env.NEXT_PUBLIC_OMDB_API_KEY || ''
     this.spotifyClientId = process.env.SPOTIFY_CLIENT_ID || ''
@@ -131,7 +129,55 @@ export class ContentRecommender {
   }
 
 
-  async getMovieRecommendations(emotion: keyof typeof this.emotionMappings): Promise<any[]> {
+  private mappingFor(emotion: Emotion): EmotionMapping {
+    const mappings = loadEmotionMappings()
+    return mappings[emotion] || mappings.neutral
+  }
+
+  /**
+   * Up to `count` results for one query that haven't been shown yet. Results an earlier call
+   * fetched but nobody showed (cut by a slice, the shuffle or the route's blend) come first, and
+   * only then does the query page on from where it left off. Everything unshown stays pending, so
+   * the next call can still serve it, and a failed request keeps its place to be retried.
+   */
+  private async nextResults<T>(
+    query: string,
+    count: number,
+    first: number,
+    page: PageState | undefined,
+    idOf: (result: T) => string,
+    fetchPage: (position: number) => Promise<{ results: T[]; next: number | null } | null>
+  ): Promise<T[]> {
+    const saved = page?.positions[query]
+    let position = saved === undefined ? first : saved
+    const results: T[] = (page?.pending[query] || []).filter(result => !page?.exclude.has(idOf(result)))
+
+    for (let fetched = 0; position !== null && results.length < count && fetched < MAX_PAGES_PER_CALL; fetched++) {
+      const found = await fetchPage(position)
+      if (!found) break
+
+      results.push(...found.results.filter(result =>
+        !page?.exclude.has(idOf(result)) && !results.some(taken => idOf(taken) === idOf(result))
+      ))
+      position = found.next
+    }
+
+    if (page) {
+      page.positions[query] = position
+      page.pending[query] = results
+    }
+    return results.slice(0, count)
+  }
+
+  // Queries that still have results to give, pending or further in, in mapping order
+  private openQueries<T>(queries: string[], page: PageState | undefined, idOf: (result: T) => string): string[] {
+    if (!page) return queries
+    return queries.filter(query =>
+      page.positions[query] !== null || (page.pending[query] || []).some(result => !page.exclude.has(idOf(result)))
+    )
+  }
+
+  async getMovieRecommendations(emotion: Emotion, override?: EmotionMapping, page?: PageState): Promise<any[]> {
     if (!this.omdbApiKey || this.omdbApiKey === 'your_actual_omdb_api_key_here') {
       console.error('❌ OMDB API key not configured properly:', this.omdbApiKey)
       throw new Error('OMDB API key missing or invalid')
@@ -140,75 +186,82 @@ export class ContentRecommender {
     console.log('Using OMDB API key:', this.omdbApiKey ? this.omdbApiKey.substring(0, 8) + '...' : 'Not set')
 
     try {
-      const mapping = this.emotionMappings[emotion] || this.emotionMappings.neutral
-      const queries = mapping.movie_queries
+      const mapping = override || this.mappingFor(emotion)
+      const queries = mapping.movies
 
       const movies: any[] = []
 
       // Search for movies using different emotion-based queries
-      for (const query of queries.slice(0, 3)) {
+      for (const query of this.openQueries<OMDBMovie>(queries, page, movie => movie.imdbID).slice(0, 3)) {
         try {
           const url = 'https://www.omdbapi.com/'
-          const params = new URLSearchParams({
-            apikey: this.omdbApiKey,
-            s: query,
-            type: 'movie',
-            page: '1'
-          })
+          const hits = await this.nextResults<OMDBMovie>(query, 4, 1, page, movie => movie.imdbID, async (position) => {
+            const params = new URLSearchParams({
+              apikey: this.omdbApiKey,
+              s: query,
+              type: 'movie',
+              page: String(position)
+            })
+
+            const response = await fetch(`${url}?${params}`, {
+              signal: AbortSignal.timeout(10000)
+            })
+
+            if (!response.ok) {
+              console.error('OMDB search fetch failed:', response.status)
+              return null
+            }
 
-          const response = await fetch(`${url}?${params}`, {
-            signal: AbortSignal.timeout(10000)
+            const data = await response.json()
+            console.log(`OMDB search response for "${query}" (page ${position}):`, JSON.stringify(data, null, 2))
+
+            if (!Array.isArray(data.Search)) {
+              console.warn(`No movies found for query "${query}":`, data)
+              // Running off the end is "Movie not found!"; anything else (e.g. the daily limit) is worth retrying
+              return data.Error === 'Movie not found!' ? { results: [], next: null } : null
+            }
+
+            return { results: data.Search, next: position * 10 < Number(data.totalResults) ? position + 1 : null }
           })
 
-          if (response.ok) {
-            const data = await response.json()
-            console.log(`OMDB search response for "${query}":`, JSON.stringify(data, null, 2))
-
-            if (data.Search && Array.isArray(data.Search)) {
-              // Get detailed info for each movie
-              for (const movie of data.Search.slice(0, 4)) {
-                try {
-                  const detailParams = new URLSearchParams({
-                    apikey: this.omdbApiKey,
-                    i: movie.imdbID,
-                    plot: 'short'
-                  })
+          // Get detailed info for each movie
+          for (const movie of hits) {
+            try {
+              const detailParams = new URLSearchParams({
+                apikey: this.omdbApiKey,
+                i: movie.imdbID,
+                plot: 'short'
+              })
 
-                  const detailResponse = await fetch(`${url}?${detailParams}`, {
-                    signal: AbortSignal.timeout(8000)
-                  })
+              const detailResponse = await fetch(`${url}?${detailParams}`, {
+                signal: AbortSignal.timeout(8000)
+              })
 
-                  if (detailResponse.ok) {
-                    const detailData = await detailResponse.json()
-
-                    if (detailData.Response === 'True') {
-                      movies.push({
-                        id: detailData.imdbID,
-                        title: detailData.Title || 'Unknown Title',
-                        year: detailData.Year || '',
-                        rating: detailData.imdbRating !== 'N/A' ? parseFloat(detailData.imdbRating) || 0 : 0,
-                        overview: detailData.Plot !== 'N/A' ? detailData.Plot : 'No description available.',
-                        poster_url: detailData.Poster !== 'N/A' ? detailData.Poster : null,
-                        genres: detailData.Genre !== 'N/A' ? detailData.Genre.split(', ') : [],
-                        director: detailData.Director !== 'N/A' ? detailData.Director : 'Unknown',
-                        actors: detailData.Actors !== 'N/A' ? detailData.Actors : 'Unknown',
-                        imdb_url: `https://www.imdb.com/title/${detailData.imdbID}`
-                      })
-                    } else {
-                      console.warn('OMDB detailData.Response not True:', detailData)
-                    }
-                  } else {
-                    console.error('OMDB detail fetch failed:', detailResponse.status)
-                  }
-                } catch (detailError) {
-                  console.error('Error fetching movie details:', detailError)
+              if (detailResponse.ok) {
+                const detailData = await detailResponse.json()
+
+                if (detailData.Response === 'True') {
+                  movies.push({
+                    id: detailData.imdbID,
+                    title: detailData.Title || 'Unknown Title',
+                    year: detailData.Year || '',
+                    rating: detailData.imdbRating !== 'N/A' ? parseFloat(detailData.imdbRating) || 0 : 0,
+                    overview: detailData.Plot !== 'N/A' ? detailData.Plot : 'No description available.',
+                    poster_url: detailData.Poster !== 'N/A' ? detailData.Poster : null,
+                    genres: detailData.Genre !== 'N/A' ? detailData.Genre.split(', ') : [],
+                    director: detailData.Director !== 'N/A' ? detailData.Director : 'Unknown',
+                    actors: detailData.Actors !== 'N/A' ? detailData.Actors : 'Unknown',
+                    imdb_url: `https://www.imdb.com/title/${detailData.imdbID}`
+                  })
+                } else {
+                  console.warn('OMDB detailData.Response not True:', detailData)
                 }
+              } else {
+                console.error('OMDB detail fetch failed:', detailResponse.status)
               }
-            } else {
-              console.warn(`No movies found for query "${query}":`, data)
+            } catch (detailError) {
+              console.error('Error fetching movie details:', detailError)
             }
-          } else {
-            console.error('OMDB search fetch failed:', response.status)
           }
         } catch (error) {
           console.error(`Error searching for ${query} movies:`, error)
@@ -240,52 +293,86 @@ export class ContentRecommender {
     }
   }
 
-  async getMusicRecommendations(emotion: keyof typeof this.emotionMappings): Promise<any[]> {
+  // Valence/energy per track id; an empty map when Spotify won't say, so callers keep their order
+  private async getAudioFeatures(ids: string[], token: string): Promise<Map<string, SpotifyAudioFeatures>> {
+    const features = new Map<string, SpotifyAudioFeatures>()
+    if (ids.length === 0) return features
+
+    try {
+      const params = new URLSearchParams({ ids: ids.slice(0, 100).join(',') })
+      const response = await fetch(`https://api.spotify.com/v1/audio-features?${params}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+        signal: AbortSignal.timeout(10000)
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        for (const feature of (data.audio_features || []) as (SpotifyAudioFeatures | null)[]) {
+          if (feature) features.set(feature.id, feature)
+        }
+      } else {
+        console.warn('Spotify audio features unavailable:', response.status)
+      }
+    } catch (error) {
+      console.error('Error fetching audio features:', error)
+    }
+
+    return features
+  }
+
+  async getMusicRecommendations(emotion: Emotion, targets?: AudioTargets, override?: EmotionMapping, page?: PageState): Promise<any[]> {
     const token = await this.getSpotifyToken()
     if (!token) {
       return []
     }
 
     try {
-      const mapping = this.emotionMappings[emotion] || this.emotionMappings.neutral
-      const genres = mapping.music_genres
+      const mapping = override || this.mappingFor(emotion)
+      const genres = mapping.songs.genres
 
       const songs: any[] = []
       const headers = { 'Authorization': `Bearer ${token}` }
 
       // Get tracks from multiple genres
-      for (const genre of genres.slice(0, 2)) {
+      for (const genre of this.openQueries<SpotifyTrack>(genres, page, track => track.id).slice(0, 2)) {
         try {
           const url = 'https://api.spotify.com/v1/search'
-          const params = new URLSearchParams({
-            q: `genre:${genre}`,
-            type: 'track',
-            limit: '25'
-          })
+          const tracks = await this.nextResults<SpotifyTrack>(genre, 25, 0, page, track => track.id, async (offset) => {
+            const params = new URLSearchParams({
+              q: `genre:${genre}`,
+              type: 'track',
+              limit: '25',
+              offset: String(offset)
+            })
 
-          const response = await fetch(`${url}?${params}`, {
-            headers,
-            signal: AbortSignal.timeout(10000)
-          })
+            const response = await fetch(`${url}?${params}`, {
+              headers,
+              signal: AbortSignal.timeout(10000)
+            })
+
+            if (!response.ok) return null
 
-          if (response.ok) {
             const data = await response.json()
-            const tracks: SpotifyTrack[] = data.tracks?.items || []
-
-            for (const track of tracks) {
-              const duration = track.duration_ms || 0
-              const durationStr = `${Math.floor(duration / 60000)}:${Math.floor((duration % 60000) / 1000).toString().padStart(2, '0')}`
-
-              songs.push({
-                name: track.name || 'Unknown Track',
-                artist: track.artists?.map(a => a.name).join(', ') || 'Unknown Artist',
-                album: track.album?.name || 'Unknown Album',
-                duration: durationStr,
-                preview_url: track.preview_url,
-                image_url: track.album?.images?.[0]?.url,
-                external_url: track.external_urls?.spotify
-              })
-            }
+            const items: SpotifyTrack[] = data.tracks?.items || []
+            // Search won't page past 1000 results
+            const total = Math.min(data.tracks?.total || 0, 1000)
+            return { results: items, next: items.length > 0 && offset + 25 < total ? offset + 25 : null }
+          })
+
+          for (const track of tracks) {
+            const duration = track.duration_ms || 0
+            const durationStr = `${Math.floor(duration / 60000)}:${Math.floor((duration % 60000) / 1000).toString().padStart(2, '0')}`
+
+            songs.push({
+              id: track.id,
+              name: track.name || 'Unknown Track',
+              artist: track.artists?.map(a => a.name).join(', ') || 'Unknown Artist',
+              album: track.album?.name || 'Unknown Album',
+              duration: durationStr,
+              preview_url: track.preview_url,
+              image_url: track.album?.images?.[0]?.url,
+              external_url: track.external_urls?.spotify
+            })
           }
         } catch (error) {
           console.error(`Error fetching ${genre} music:`, error)
@@ -308,6 +395,18 @@ export class ContentRecommender {
         [uniqueSongs[i], uniqueSongs[j]] = [uniqueSongs[j], uniqueSongs[i]]
       }
 
+      // Closest to the target mood first; tracks without features keep their shuffled place at the end
+      if (targets) {
+        const features = await this.getAudioFeatures(uniqueSongs.map(song => song.id), token)
+        const distance = (song: any) => {
+          const feature = features.get(song.id)
+          return feature
+            ? (feature.valence - targets.valence) ** 2 + (feature.energy - targets.energy) ** 2
+            : Infinity
+        }
+        uniqueSongs.sort((a, b) => distance(a) - distance(b))
+      }
+
       return uniqueSongs.slice(0, 15)
     } catch (error) {
       console.error('Error fetching music:', error)
@@ -316,55 +415,65 @@ export class ContentRecommender {
     return []
   }
 
-  async getBookRecommendations(emotion: keyof typeof this.emotionMappings): Promise<any[]> {
+  async getBookRecommendations(emotion: Emotion, override?: EmotionMapping, page?: PageState): Promise<any[]> {
     try {
-      const mapping = this.emotionMappings[emotion] || this.emotionMappings.neutral
-      const queries = mapping.book_queries
+      const mapping = override || this.mappingFor(emotion)
+      const queries = mapping.books
 
       const books: any[] = []
 
-      for (const query of queries.slice(0, 2)) {
+      for (const query of this.openQueries<GoogleBook>(queries, page, item => item.id).slice(0, 2)) {
         try {
           const url = 'https://www.googleapis.com/books/v1/volumes'
-          const params = new URLSearchParams({
-            q: query,
-            orderBy: 'relevance',
-            maxResults: '20'
-          })
+          const items = await this.nextResults<GoogleBook>(query, 20, 0, page, item => item.id, async (startIndex) => {
+            const params = new URLSearchParams({
+              q: query,
+              orderBy: 'relevance',
+              maxResults: '20',
+              startIndex: String(startIndex)
+            })
+
+            if (this.googleBooksApiKey) {
+              params.set('key', this.googleBooksApiKey)
+            }
 
-          if (this.googleBooksApiKey) {
-            params.set('key', this.googleBooksApiKey)
-          }
+            const response = await fetch(`${url}?${params}`, {
+              signal: AbortSignal.timeout(10000)
+            })
 
-          const response = await fetch(`${url}?${params}`, {
-            signal: AbortSignal.timeout(10000)
-          })
+            if (!response.ok) return null
 
-          if (response.ok) {
             const data = await response.json()
             const items: GoogleBook[] = data.items || []
+            // totalItems is only an estimate, so an empty page is the real end. Untitled volumes
+            // are never shown, so they aren't kept pending either.
+            return {
+              results: items.filter(item => item.volumeInfo?.title),
+              next: items.length > 0 && startIndex + 20 < (data.totalItems || 0) ? startIndex + 20 : null
+            }
+          })
 
-            for (const item of items) {
-              const volumeInfo = item.volumeInfo || {}
-
-              if (!volumeInfo.title) continue
+          for (const item of items) {
+            const volumeInfo = item.volumeInfo || {}
 
-              let description = volumeInfo.description || ''
-              if (description.length > 500) {
-                description = description.substring(0, 500) + '...'
-              }
+            if (!volumeInfo.title) continue
 
-              books.push({
-                title: volumeInfo.title || 'Unknown Title',
-                authors: volumeInfo.authors || ['Unknown Author'],
-                published_date: volumeInfo.publishedDate || 'Unknown',
-                description: description,
-                thumbnail: volumeInfo.imageLinks?.thumbnail,
-                categories: volumeInfo.categories || [],
-                page_count: volumeInfo.pageCount,
-                rating: volumeInfo.averageRating
-              })
+            let description = volumeInfo.description || ''
+            if (description.length > 500) {
+              description = description.substring(0, 500) + '...'
             }
+
+            books.push({
+              id: item.id,
+              title: volumeInfo.title || 'Unknown Title',
+              authors: volumeInfo.authors || ['Unknown Author'],
+              published_date: volumeInfo.publishedDate || 'Unknown',
+              description: description,
+              thumbnail: volumeInfo.imageLinks?.thumbnail,
+              categories: volumeInfo.categories || [],
+              page_count: volumeInfo.pageCount,
+              rating: volumeInfo.averageRating
+            })
           }
         } catch (error) {
           console.error(`Error fetching ${query} books:`, error)
@@ -395,13 +504,19 @@ export class ContentRecommender {
     return []
   }
 
-  async getRecommendations(emotion: string) {
-    const normalizedEmotion = emotion as keyof typeof this.emotionMappings
+  // A draft mapping (from the admin editor) replaces the saved one for this call only
+  async getRecommendations(
+    emotion: string,
+    audioTargets?: AudioTargets,
+    override?: EmotionMapping,
+    pages?: { movies?: PageState; music?: PageState; books?: PageState }
+  ) {
+    const normalizedEmotion = emotion as Emotion
 
     const [movies, music, books] = await Promise.allSettled([
-      this.getMovieRecommendations(normalizedEmotion),
-      this.getMusicRecommendations(normalizedEmotion),
-      this.getBookRecommendations(normalizedEmotion)
+      this.getMovieRecommendations(normalizedEmotion, override, pages?.movies),
+      this.getMusicRecommendations(normalizedEmotion, audioTargets, override, pages?.music),
+      this.getBookRecommendations(normalizedEmotion, override, pages?.books)
     ])
 
     return {
@@ -0,0 +1,174 @@
+import { readFileSync, statSync } from "node:fs"
+import { rename, unlink, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { z } from "zod"
+import type { Emotion } from "@/lib/emotion-providers/types"
+
+// The one place emotions map to content searches, shared by the recommender and the route's fallback path
+const DEFAULT_MAPPINGS_PATH = join(process.cwd(), "config", "emotion-mappings.json")
+
+const searchTerms = z.array(z.string().trim().min(1)).min(1)
+const unitInterval = z.number().min(0).max(1)
+
+export const emotionMappingSchema = z.object({
+  // OMDB title searches; the recommender uses the first three, the fallback path picks at random
+  movies: searchTerms,
+  songs: z.object({
+    queries: searchTerms,
+    // Spotify seed genres; the recommender searches the first two
+    genres: searchTerms,
+    // Spotify audio-feature targets for the label's textbook mood, shifted by the detected circumplex point
+    audioFeatures: z.object({
+      valence: unitInterval,
+      energy: unitInterval,
+      danceability: unitInterval.optional(),
+      acousticness: unitInterval.optional(),
+      instrumentalness: unitInterval.optional(),
+      speechiness: unitInterval.optional(),
+      // Decibels, typically -60..0
+      loudness: z.number().max(0).optional(),
+      popularity: z.number().int().min(0).max(100).optional(),
+    }).strict(),
+  }).strict(),
+  // Google Books queries; the recommender uses the first two
+  books: searchTerms,
+}).strict()
+
+// Every emotion must be mapped, and unknown keys are typos rather than something to ignore
+export const emotionMappingsSchema = z.object({
+  happy: emotionMappingSchema,
+  sad: emotionMappingSchema,
+  angry: emotionMappingSchema,
+  surprised: emotionMappingSchema,
+  neutral: emotionMappingSchema,
+  disgust: emotionMappingSchema,
+  fear: emotionMappingSchema,
+}).strict()
+
+export type EmotionMapping = z.infer<typeof emotionMappingSchema>
+export type EmotionMappings = { [key in Emotion]: EmotionMapping }
+
+export interface MappingIssue {
+  // Dotted path into the mapping, e.g. "songs.audioFeatures.energy"
+  path: string
+  message: string
+}
+
+export function emotionMappingsPath(): string {
+  return process.env.EMOTION_MAPPINGS_PATH || DEFAULT_MAPPINGS_PATH
+}
+
+function describeIssues(error: z.ZodError): { error: string; issues: MappingIssue[] } {
+  const issues = error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+  return { error: issues.map(({ path, message }) => `${path || "(root)"}: ${message}`).join("; "), issues }
+}
+
+// Validate parsed JSON, listing every problem with its path so a bad edit is easy to find
+export function parseEmotionMappings(data: unknown): { mappings?: EmotionMappings; error?: string; issues?: MappingIssue[] } {
+  const parsed = emotionMappingsSchema.safeParse(data)
+  return parsed.success ? { mappings: parsed.data } : describeIssues(parsed.error)
+}
+
+// Same checks for a single emotion's entry, as sent by the mapping editor
+export function parseEmotionMapping(data: unknown): { mapping?: EmotionMapping; error?: string; issues?: MappingIssue[] } {
+  const parsed = emotionMappingSchema.safeParse(data)
+  return parsed.success ? { mapping: parsed.data } : describeIssues(parsed.error)
+}
+
+// Production looks at the file's modification time at most this often, so every instance sharing
+// the file picks up a save without a stat on each of the many lookups per request
+const PRODUCTION_RECHECK_MS = 5_000
+
+let cached: { path: string; mtimeMs: number; checkedAt: number; mappings: EmotionMappings } | null = null
+
+// Read and validate the file as it is on disk right now, ignoring the cache
+function readMappingsFile(path: string): { mappings: EmotionMappings; mtimeMs: number } {
+  let mtimeMs: number
+  let data: unknown
+  try {
+    mtimeMs = statSync(path).mtimeMs
+    data = JSON.parse(readFileSync(path, "utf8"))
+  } catch (error) {
+    throw new Error(`Could not read emotion mappings from ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const { mappings, error } = parseEmotionMappings(data)
+  if (!mappings) {
+    throw new Error(`Invalid emotion mappings in ${path}: ${error}`)
+  }
+  return { mappings, mtimeMs }
+}
+
+/**
+ * Load the mapping file, validated. It is re-read whenever its modification time changes, so
+ * edits apply without a restart; production checks at most every few seconds. A missing,
+ * unreadable or invalid file throws rather than falling back to defaults: a typo should break loudly.
+ */
+export function loadEmotionMappings(): EmotionMappings {
+  const path = emotionMappingsPath()
+  const current = cached && cached.path === path ? cached : null
+  if (current && process.env.NODE_ENV === "production" && Date.now() - current.checkedAt < PRODUCTION_RECHECK_MS) {
+    return current.mappings
+  }
+
+  let mtimeMs: number
+  try {
+    mtimeMs = statSync(path).mtimeMs
+  } catch (error) {
+    throw new Error(`Could not read emotion mappings from ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+  if (current && current.mtimeMs === mtimeMs) {
+    current.checkedAt = Date.now()
+    return current.mappings
+  }
+
+  const loaded = readMappingsFile(path)
+  if (cached) {
+    console.log(`🔄 Reloaded emotion mappings from ${path}`)
+  }
+  cached = { path, ...loaded, checkedAt: Date.now() }
+  return loaded.mappings
+}
+
+// Saves in this process run one at a time
+let pendingSave: Promise<unknown> = Promise.resolve()
+
+/**
+ * Replace one emotion's entry and write the file back. Each save starts from the file as it is
+ * on disk, not from the cache, so an edit saved meanwhile by another instance or by hand is kept.
+ * The write goes to a temporary file that is then renamed over the original, so a request
+ * arriving mid-save never reads half a file. A file the server can't write (a read-only
+ * deployment) comes back as a `read_only` error instead of a crash.
+ */
+export function saveEmotionMapping(
+  emotion: Emotion,
+  mapping: EmotionMapping,
+): Promise<{ mappings?: EmotionMappings; error?: string; code?: "read_only" }> {
+  const save = pendingSave.then(async () => {
+    const path = emotionMappingsPath()
+    const mappings = { ...readMappingsFile(path).mappings, [emotion]: mapping }
+
+    const temporary = `${path}.${process.pid}.tmp`
+    try {
+      await writeFile(temporary, `${JSON.stringify(mappings, null, 2)}\n`)
+      await rename(temporary, path)
+    } catch (error) {
+      await unlink(temporary).catch(() => {})
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === "EROFS" || code === "EACCES" || code === "EPERM") {
+        return {
+          error: `${path} is not writable on this server (${code}). Point EMOTION_MAPPINGS_PATH at writable storage shared by every instance, or edit the file in the repository and redeploy.`,
+          code: "read_only" as const,
+        }
+      }
+      throw error
+    }
+
+    cached = { path, mtimeMs: statSync(path).mtimeMs, checkedAt: Date.now(), mappings }
+    console.log(`💾 Saved ${emotion} emotion mapping to ${path}`)
+    return { mappings }
+  })
+
+  pendingSave = save.catch(() => {})
+  return save
+}
@@ -0,0 +1,115 @@
+import { emotionProviderRegistry } from "./registry"
+import { dominantEmotion, emptyScores } from "./scores"
+import { EMOTIONS, type EmotionDetectionResponse, type EmotionScores, type FaceResult, type NeutralBaseline, type ProviderId } from "./types"
+
+// Fewer usable neutral frames than this and the average is mostly noise
+export const MIN_CALIBRATION_FRAMES = 3
+
+function normalized(scores: EmotionScores): EmotionScores {
+  const total = EMOTIONS.reduce((sum, emotion) => sum + Math.max(0, scores[emotion]), 0)
+  const result = emptyScores()
+  if (total === 0) return result
+  for (const emotion of EMOTIONS) {
+    result[emotion] = Math.max(0, scores[emotion]) / total
+  }
+  return result
+}
+
+// Average the primary face of frames captured while the user held a relaxed, neutral face
+export function buildBaseline(frames: EmotionDetectionResponse[]): NeutralBaseline | null {
+  const usable = frames.filter((frame) => frame.face_detected)
+  if (usable.length < MIN_CALIBRATION_FRAMES) return null
+
+  const allEmotions = emptyScores()
+  for (const frame of usable) {
+    const scores = normalized(frame.all_emotions)
+    for (const emotion of EMOTIONS) {
+      allEmotions[emotion] += scores[emotion] / usable.length
+    }
+  }
+
+  const latest = usable[usable.length - 1]
+  return {
+    all_emotions: allEmotions,
+    frame_count: usable.length,
+    service_used: latest.service_used as ProviderId,
+    ...(latest.ensemble && { ensemble: true }),
+    captured_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Rescale so the user's resting face reads as neutral. Each non-neutral score is mapped from
+ * [baseline, 1] onto [0, 1]: the resting level of "sad" becomes zero while a clearly sad face
+ * still reads as sad. Whatever probability that frees up goes to neutral.
+ */
+export function calibrateScores(scores: EmotionScores, baseline: EmotionScores): EmotionScores {
+  const input = normalized(scores)
+  const calibrated = emptyScores()
+  let expressed = 0
+
+  for (const emotion of EMOTIONS) {
+    if (emotion === "neutral") continue
+    const resting = Math.min(baseline[emotion], 0.95)
+    calibrated[emotion] = Math.max(0, (input[emotion] - resting) / (1 - resting))
+    expressed += calibrated[emotion]
+  }
+  calibrated.neutral = Math.max(input.neutral, 1 - expressed)
+
+  return normalized(calibrated)
+}
+
+function calibrateFace(face: FaceResult, baseline: EmotionScores): FaceResult {
+  const allEmotions = calibrateScores(face.all_emotions, baseline)
+  return { ...face, ...dominantEmotion(allEmotions), all_emotions: allEmotions }
+}
+
+/**
+ * Apply a baseline to the primary face only: it belongs to whoever calibrated, other people in
+ * frame are left as the provider saw them. Baselines from another provider are ignored, since
+ * each provider has its own resting bias, and so are ensemble baselines on single-provider
+ * results and the other way round: a fused distribution has a resting bias of its own.
+ */
+export function applyBaseline(result: EmotionDetectionResponse, baseline: NeutralBaseline): EmotionDetectionResponse {
+  if (!result.face_detected || result.service_used !== baseline.service_used) return result
+  if (!!result.ensemble !== !!baseline.ensemble) return result
+
+  const allEmotions = calibrateScores(result.all_emotions, baseline.all_emotions)
+  const [primary, ...others] = result.faces
+
+  return {
+    ...result,
+    ...dominantEmotion(allEmotions),
+    all_emotions: allEmotions,
+    faces: primary ? [calibrateFace(primary, baseline.all_emotions), ...others] : result.faces,
+    calibrated: true,
+  }
+}
+
+// Validate a baseline echoed back by the client, the same way parseSimulationOptions validates its input
+export function parseBaseline(raw: unknown): { baseline?: NeutralBaseline; error?: string } {
+  if (raw === undefined || raw === null) return {}
+  if (typeof raw !== "object") return { error: "baseline must be an object" }
+
+  const { all_emotions, frame_count, service_used, ensemble, captured_at } = raw as { [key: string]: unknown }
+  const scores = all_emotions as { [key: string]: unknown } | undefined
+  const validScores = !!scores && typeof scores === "object" && EMOTIONS.every((emotion) =>
+    typeof scores[emotion] === "number" && (scores[emotion] as number) >= 0 && (scores[emotion] as number) <= 1
+  )
+  if (!validScores) return { error: `baseline.all_emotions must map ${EMOTIONS.join(", ")} to numbers between 0 and 1` }
+  if (typeof service_used !== "string" || !emotionProviderRegistry.get(service_used as ProviderId)) {
+    const ids = emotionProviderRegistry.list().map((provider) => provider.id)
+    return { error: `baseline.service_used must be one of ${ids.join(", ")}` }
+  }
+  if (ensemble !== undefined && typeof ensemble !== "boolean") return { error: "baseline.ensemble must be a boolean" }
+
+  return {
+    baseline: {
+      all_emotions: normalized(scores as EmotionScores),
+      frame_count: typeof frame_count === "number" ? frame_count : 0,
+      service_used: service_used as ProviderId,
+      ...(ensemble === true && { ensemble: true }),
+      captured_at: typeof captured_at === "string" ? captured_at : "",
+    },
+  }
+}
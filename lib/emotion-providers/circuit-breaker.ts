@@ -0,0 +1,149 @@
+import type { DetectionErrorCode, ProviderId } from "./types"
+
+// Consecutive infrastructure failures before a provider is skipped
+const FAILURE_THRESHOLD = 2
+// First open period; doubles each time a half-open trial fails
+const BASE_BACKOFF_MS = 5_000
+const MAX_BACKOFF_MS = 5 * 60_000
+// A passing health check (or successful detection) is trusted for this long before probing again
+const HEALTH_TTL_MS = 15_000
+
+// Failures that say the provider itself is down, as opposed to a bad image or an empty frame
+const BREAKER_FAILURE_CODES: DetectionErrorCode[] = ["provider_timeout", "provider_unreachable", "provider_error"]
+
+export type CircuitState = "closed" | "open" | "half_open"
+
+export interface CircuitSnapshot {
+  state: CircuitState
+  consecutive_failures: number
+  // Times the circuit has opened since the process started
+  trips: number
+  // Requests that skipped this provider because the circuit was open
+  skipped: number
+  opened_at: string | null
+  retry_at: string | null
+  last_failure: string | null
+}
+
+export function countsAsBreakerFailure(code: DetectionErrorCode): boolean {
+  return BREAKER_FAILURE_CODES.includes(code)
+}
+
+/**
+ * closed: requests flow, failures are counted.
+ * open: requests skip the provider until retry_at.
+ * half_open: exactly one trial request is let through; success closes the circuit,
+ * failure re-opens it with double the previous backoff.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed"
+  private consecutiveFailures = 0
+  // Opens since the last close; drives the exponential backoff
+  private consecutiveTrips = 0
+  private trips = 0
+  private skipped = 0
+  private openedAt: number | null = null
+  private retryAt: number | null = null
+  private trialInFlight = false
+  private healthyUntil = 0
+  private lastFailure: string | null = null
+
+  constructor(private readonly id: ProviderId) {}
+
+  allowRequest(now = Date.now()): boolean {
+    if (this.state === "closed") return true
+
+    if (this.state === "open" && this.retryAt !== null && now >= this.retryAt) {
+      this.transition("half_open")
+    }
+    if (this.state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+
+    this.skipped++
+    return false
+  }
+
+  // Health is re-probed when the cached result expired or a half-open trial is running
+  needsHealthCheck(now = Date.now()): boolean {
+    return this.state === "half_open" || now >= this.healthyUntil
+  }
+
+  // A passing health check only says the provider is reachable; it's no proof detection works, so
+  // it leaves the circuit as it is and a half-open trial still waits for its detection
+  recordHealthy(now = Date.now()) {
+    this.healthyUntil = now + HEALTH_TTL_MS
+  }
+
+  recordSuccess(now = Date.now()) {
+    this.consecutiveFailures = 0
+    this.consecutiveTrips = 0
+    this.trialInFlight = false
+    this.healthyUntil = now + HEALTH_TTL_MS
+    if (this.state !== "closed") {
+      this.openedAt = null
+      this.retryAt = null
+      this.transition("closed")
+    }
+  }
+
+  recordFailure(reason: string, now = Date.now()) {
+    this.consecutiveFailures++
+    this.lastFailure = reason
+    this.healthyUntil = 0
+
+    if (this.state === "half_open" || this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.trialInFlight = false
+      this.consecutiveTrips++
+      this.trips++
+      const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (this.consecutiveTrips - 1), MAX_BACKOFF_MS)
+      this.openedAt = now
+      this.retryAt = now + backoff
+      this.transition("open", `${reason}; retrying in ${Math.round(backoff / 1000)}s`)
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      trips: this.trips,
+      skipped: this.skipped,
+      opened_at: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retry_at: this.retryAt !== null ? new Date(this.retryAt).toISOString() : null,
+      last_failure: this.lastFailure,
+    }
+  }
+
+  private transition(state: CircuitState, detail?: string) {
+    const previous = this.state
+    this.state = state
+    if (state === "open") {
+      console.warn(`⚠️ Circuit for emotion provider "${this.id}" opened (was ${previous}): ${detail}`)
+    } else if (state === "half_open") {
+      console.log(`🔄 Circuit for emotion provider "${this.id}" half-open, sending one trial request`)
+    } else if (previous !== "closed") {
+      console.log(`✅ Circuit for emotion provider "${this.id}" closed, provider is back`)
+    }
+  }
+}
+
+class CircuitBreakerRegistry {
+  private breakers = new Map<ProviderId, CircuitBreaker>()
+
+  get(id: ProviderId): CircuitBreaker {
+    let breaker = this.breakers.get(id)
+    if (!breaker) {
+      breaker = new CircuitBreaker(id)
+      this.breakers.set(id, breaker)
+    }
+    return breaker
+  }
+
+  snapshot(): { [id: string]: CircuitSnapshot } {
+    return Object.fromEntries(Array.from(this.breakers, ([id, breaker]) => [id, breaker.snapshot()]))
+  }
+}
+
+export const providerCircuitBreakers = new CircuitBreakerRegistry()
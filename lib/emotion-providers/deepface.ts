@@ -0,0 +1,109 @@
+import { dominantEmotion, toEmotionScores } from "./scores"
+import { EMOTIONS, type Emotion, type EmotionProvider, type FaceResult, type FacialLandmarks, type ProviderResult } from "./types"
+
+const EMOTION_API_URL = process.env.EMOTION_API_URL || "http://localhost:5001"
+
+interface DeepFaceFace {
+  region?: { x: number; y: number; w: number; h: number }
+  emotion?: { [key: string]: number }
+  // Optional: sidecars that run a landmark model report points under the Face++ names
+  landmarks?: FacialLandmarks
+}
+
+// DeepFace reports each face's region and a 0-100 emotion map
+function toFaceResult(face: DeepFaceFace): FaceResult {
+  const allEmotions = toEmotionScores(face.emotion)
+  EMOTIONS.forEach((emotion) => {
+    allEmotions[emotion] /= 100
+  })
+  const dominant = dominantEmotion(allEmotions)
+
+  return {
+    bounding_box: face.region && { top: face.region.y, left: face.region.x, width: face.region.w, height: face.region.h },
+    emotion: dominant.emotion,
+    confidence: dominant.confidence,
+    all_emotions: allEmotions,
+    landmarks: face.landmarks,
+  }
+}
+
+// DeepFace sidecar: a local Python service exposing /health and /detect-emotion
+export const deepFaceProvider: EmotionProvider<"deepface", "deepface_ai"> = {
+  id: "deepface",
+  serviceMode: "deepface_ai",
+  simulated: false,
+  defaultTimeoutMs: 15000,
+  features: ["emotion", "multi_face", "bounding_boxes", "offline"],
+
+  isConfigured() {
+    return !!EMOTION_API_URL
+  },
+
+  async isAvailable() {
+    try {
+      const healthResponse = await fetch(`${EMOTION_API_URL}/health`, {
+        method: "GET",
+        signal: AbortSignal.timeout(3000),
+        headers: {
+          Accept: "application/json",
+        },
+      })
+
+      return healthResponse.ok
+    } catch (error) {
+      return false
+    }
+  },
+
+  async detect(image, { timeoutMs }): Promise<ProviderResult> {
+    try {
+      const response = await fetch(`${EMOTION_API_URL}/detect-emotion`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ image }),
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `DeepFace service error: ${response.status}`,
+          code: response.status === 429 ? "rate_limited" : "provider_error",
+          service_used: "deepface",
+        }
+      }
+
+      const result = await response.json()
+      if (result.success === false) {
+        return { success: false, error: result.error || "DeepFace detection failed", code: "provider_error", service_used: "deepface" }
+      }
+
+      const faces: FaceResult[] = Array.isArray(result.faces) ? result.faces.map(toFaceResult) : []
+
+      const allEmotions = toEmotionScores(result.all_emotions)
+      // Tolerate sidecars that only report the top label
+      if (EMOTIONS.includes(result.emotion) && allEmotions[result.emotion as Emotion] === 0) {
+        allEmotions[result.emotion as Emotion] = Number(result.confidence) || 0
+      }
+      const dominant = dominantEmotion(allEmotions)
+
+      return {
+        success: true,
+        emotion: dominant.emotion,
+        confidence: dominant.confidence,
+        all_emotions: allEmotions,
+        face_detected: result.face_detected !== false,
+        faces: faces.length > 0 ? faces : [{ emotion: dominant.emotion, confidence: dominant.confidence, all_emotions: allEmotions }],
+        service_used: "deepface",
+        service_mode: "deepface_ai",
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        return { success: false, error: "DeepFace service timeout", code: "provider_timeout", service_used: "deepface" }
+      }
+      return { success: false, error: "DeepFace service unreachable", code: "provider_unreachable", service_used: "deepface" }
+    }
+  },
+}
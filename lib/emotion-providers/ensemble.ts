@@ -0,0 +1,67 @@
+import { dominantEmotion, emptyScores } from "./scores"
+import { EMOTIONS, type EmotionDetectionResponse, type ProviderId } from "./types"
+
+export interface EnsembleMember {
+  result: EmotionDetectionResponse
+  weight: number
+}
+
+// EMOTION_ENSEMBLE=true turns ensemble mode on for every request
+export function ensembleEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.EMOTION_ENSEMBLE === "true"
+}
+
+/**
+ * Weighted average of the members' all_emotions, each normalised to sum to 1 first so a
+ * provider reporting percentages can't outvote one reporting fractions. Members that found no
+ * face don't vote. Faces, boxes and service info come from the first voting member in chain
+ * order, with the fused scores written into faces[0] so it still matches the top-level fields.
+ * Providers can't be matched up face by face, so any other faces keep that member's scores.
+ * Agreement is the weighted share of voters whose own top emotion matches the fused one.
+ */
+export function fuseResults(members: EnsembleMember[], failed: ProviderId[]): EmotionDetectionResponse {
+  const voters = members.filter(({ result, weight }) => result.face_detected && weight > 0)
+  const primary = voters[0]?.result ?? members[0].result
+
+  const allEmotions = emptyScores()
+  let totalWeight = 0
+  for (const { result, weight } of voters) {
+    const total = EMOTIONS.reduce((sum, emotion) => sum + result.all_emotions[emotion], 0) || 1
+    for (const emotion of EMOTIONS) {
+      allEmotions[emotion] += (result.all_emotions[emotion] / total) * weight
+    }
+    totalWeight += weight
+  }
+  if (totalWeight === 0) {
+    // Nobody found a face: the caller reports no_face from the primary result
+    return { ...primary, ensemble: { agreement: 0, agreed: [], disagreed: [], failed, votes: [] } }
+  }
+  for (const emotion of EMOTIONS) {
+    allEmotions[emotion] /= totalWeight
+  }
+
+  const fused = dominantEmotion(allEmotions)
+  const votes = voters.map(({ result, weight }) => ({
+    provider: result.service_used as ProviderId,
+    emotion: result.emotion,
+    confidence: result.confidence,
+    weight,
+  }))
+  const agreeing = votes.filter((vote) => vote.emotion === fused.emotion)
+
+  return {
+    ...primary,
+    emotion: fused.emotion,
+    confidence: fused.confidence,
+    all_emotions: allEmotions,
+    faces: primary.faces.map((face, index) =>
+      index === 0 ? { ...face, emotion: fused.emotion, confidence: fused.confidence, all_emotions: allEmotions } : face),
+    ensemble: {
+      agreement: Number((agreeing.reduce((sum, vote) => sum + vote.weight, 0) / totalWeight).toFixed(3)),
+      agreed: agreeing.map((vote) => vote.provider),
+      disagreed: votes.filter((vote) => vote.emotion !== fused.emotion).map((vote) => vote.provider),
+      failed,
+      votes,
+    },
+  }
+}
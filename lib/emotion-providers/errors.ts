@@ -0,0 +1,28 @@
+import type { DetectionErrorBody, DetectionErrorCode, ServiceMode } from "./types"
+
+// Codes where sending the same request again can reasonably succeed
+const RETRYABLE_CODES: DetectionErrorCode[] = [
+  "no_face",
+  "poor_quality",
+  "no_speech",
+  "rate_limited",
+  "provider_timeout",
+  "provider_unreachable",
+  "provider_error",
+  "service_unavailable",
+  "internal_error",
+]
+
+export function isRetryable(code: DetectionErrorCode): boolean {
+  return RETRYABLE_CODES.includes(code)
+}
+
+// Body shared by every error response under /api/emotion-detection
+export function detectionErrorBody(
+  code: DetectionErrorCode,
+  error: string,
+  serviceMode: ServiceMode = "error",
+  extra: { [key: string]: unknown } = {},
+): DetectionErrorBody & { [key: string]: unknown } {
+  return { success: false as const, error, code, retryable: isRetryable(code), service_mode: serviceMode, ...extra }
+}
@@ -0,0 +1,172 @@
+import { dominantEmotion, emptyScores } from "./scores"
+import {
+  EMOTIONS,
+  type Emotion,
+  type EmotionDetectionResponse,
+  type ExpressionAnalysis,
+  type ExpressionFeature,
+  type FaceResult,
+  type FacialLandmarks,
+  type FeatureContribution,
+  type Point,
+} from "./types"
+
+const FEATURES: ExpressionFeature[] = ["mouth_curvature", "brow_raise", "eye_openness", "mouth_opening"]
+
+// The points the measurements need; a provider missing any of them gets no expression analysis
+const REQUIRED_LANDMARKS = [
+  "left_eye_center", "left_eye_top", "left_eye_bottom", "left_eye_left_corner", "left_eye_right_corner",
+  "right_eye_center", "right_eye_top", "right_eye_bottom", "right_eye_left_corner", "right_eye_right_corner",
+  "left_eyebrow_lower_middle", "right_eyebrow_lower_middle",
+  "mouth_left_corner", "mouth_right_corner", "mouth_upper_lip_bottom", "mouth_lower_lip_top",
+]
+
+/**
+ * Typical relaxed-face values and the change that counts as a full-strength expression. Distances
+ * are in units of the distance between the eye centres, so face size and distance don't matter.
+ * These are rough averages across faces, not per-user: calibration handles individual bias.
+ */
+const FEATURE_SCALES: { [key in ExpressionFeature]: { neutral: number; span: number } } = {
+  // Inner edge of the upper lip below the mouth corners (corners raised = smile)
+  mouth_curvature: { neutral: 0, span: 0.1 },
+  // Lower edge of the eyebrow above the eye centre
+  brow_raise: { neutral: 0.3, span: 0.1 },
+  // Eye height over eye width
+  eye_openness: { neutral: 0.28, span: 0.12 },
+  // Gap between the lips
+  mouth_opening: { neutral: 0, span: 0.3 },
+}
+
+// How each feature argues for an emotion. Neutral is scored separately, by how still the face is.
+const EXPRESSION_RULES: { [key in Exclude<Emotion, "neutral">]: Partial<{ [feature in ExpressionFeature]: number }> } = {
+  happy: { mouth_curvature: 1, eye_openness: -0.2 },
+  sad: { mouth_curvature: -0.8, eye_openness: -0.3 },
+  surprised: { brow_raise: 0.7, eye_openness: 0.6, mouth_opening: 0.7 },
+  fear: { brow_raise: 0.5, eye_openness: 0.7, mouth_opening: 0.3, mouth_curvature: -0.3 },
+  angry: { brow_raise: -0.9, eye_openness: -0.3, mouth_opening: -0.2 },
+  disgust: { mouth_curvature: -0.5, eye_openness: -0.5, brow_raise: -0.3 },
+}
+
+// The geometry backs up the provider if it puts at least this share on the provider's emotion
+const AGREEMENT_MIN_SHARE = 0.25
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+/**
+ * Measure the features from landmarks. Points are first rotated so the eyes sit on a horizontal
+ * line, which keeps head roll from reading as a lopsided smile.
+ */
+export function measureFeatures(landmarks: FacialLandmarks): { [key in ExpressionFeature]: number } | null {
+  if (!REQUIRED_LANDMARKS.every((name) => Number.isFinite(landmarks[name]?.x) && Number.isFinite(landmarks[name]?.y))) {
+    return null
+  }
+
+  const leftEye = landmarks.left_eye_center
+  const rightEye = landmarks.right_eye_center
+  const eyeDistance = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y)
+  if (eyeDistance === 0) return null
+
+  // Rotate about the midpoint between the eyes, from whichever eye is further left in the image
+  const [first, second] = leftEye.x <= rightEye.x ? [leftEye, rightEye] : [rightEye, leftEye]
+  const angle = Math.atan2(second.y - first.y, second.x - first.x)
+  const origin = { x: (leftEye.x + rightEye.x) / 2, y: (leftEye.y + rightEye.y) / 2 }
+  const cos = Math.cos(-angle)
+  const sin = Math.sin(-angle)
+  const at = (name: string): Point => {
+    const { x, y } = landmarks[name]
+    const dx = x - origin.x
+    const dy = y - origin.y
+    return { x: (dx * cos - dy * sin) / eyeDistance, y: (dx * sin + dy * cos) / eyeDistance }
+  }
+
+  // Image y grows downwards, so "above" is a smaller y
+  // Measured against the upper lip, so a dropped jaw doesn't read as raised corners
+  const lipLine = at("mouth_upper_lip_bottom").y
+  const cornerHeight = (at("mouth_left_corner").y + at("mouth_right_corner").y) / 2
+  const browHeight = (["left", "right"] as const)
+    .map((side) => at(`${side}_eye_center`).y - at(`${side}_eyebrow_lower_middle`).y)
+    .reduce((sum, height) => sum + height / 2, 0)
+  const eyeOpenness = (["left", "right"] as const)
+    .map((side) => {
+      const width = Math.abs(at(`${side}_eye_right_corner`).x - at(`${side}_eye_left_corner`).x)
+      return width > 0 ? (at(`${side}_eye_bottom`).y - at(`${side}_eye_top`).y) / width : FEATURE_SCALES.eye_openness.neutral
+    })
+    .reduce((sum, ratio) => sum + ratio / 2, 0)
+  const lipGap = Math.max(0, at("mouth_lower_lip_top").y - at("mouth_upper_lip_bottom").y)
+
+  const raw: { [key in ExpressionFeature]: number } = {
+    mouth_curvature: lipLine - cornerHeight,
+    brow_raise: browHeight,
+    eye_openness: eyeOpenness,
+    mouth_opening: lipGap,
+  }
+
+  const features = {} as { [key in ExpressionFeature]: number }
+  for (const feature of FEATURES) {
+    const { neutral, span } = FEATURE_SCALES[feature]
+    // An open mouth has no negative counterpart
+    const min = feature === "mouth_opening" ? 0 : -1
+    features[feature] = Number(clamp((raw[feature] - neutral) / span, min, 1).toFixed(3))
+  }
+  return features
+}
+
+// Score each emotion from the features and explain the winner
+export function analyzeExpression(landmarks: FacialLandmarks, providerEmotion: Emotion): ExpressionAnalysis | null {
+  const features = measureFeatures(landmarks)
+  if (!features) return null
+
+  const evidence = emptyScores()
+  for (const [emotion, weights] of Object.entries(EXPRESSION_RULES) as [Emotion, Partial<{ [feature in ExpressionFeature]: number }>][]) {
+    const total = FEATURES.reduce((sum, feature) => sum + (weights[feature] || 0) * features[feature], 0)
+    evidence[emotion] = Math.max(0, total)
+  }
+  const movement = Math.max(...FEATURES.map((feature) => Math.abs(features[feature])))
+  evidence.neutral = Math.max(0, 1 - movement)
+
+  // A small floor keeps the distribution defined when nothing fires at all
+  const total = EMOTIONS.reduce((sum, emotion) => sum + evidence[emotion] + 0.01, 0)
+  const allEmotions = emptyScores()
+  for (const emotion of EMOTIONS) {
+    allEmotions[emotion] = Number(((evidence[emotion] + 0.01) / total).toFixed(3))
+  }
+  const estimate = dominantEmotion(allEmotions)
+
+  return {
+    ...estimate,
+    all_emotions: allEmotions,
+    features,
+    contributions: explain(estimate.emotion, features),
+    agrees_with_provider: estimate.emotion === providerEmotion || allEmotions[providerEmotion] >= AGREEMENT_MIN_SHARE,
+  }
+}
+
+function explain(emotion: Emotion, features: { [key in ExpressionFeature]: number }): FeatureContribution[] {
+  const contributions = emotion === "neutral"
+    // Every feature close to its resting value counts towards neutral
+    ? FEATURES.map((feature) => ({ feature, value: features[feature], contribution: (1 - Math.abs(features[feature])) / FEATURES.length }))
+    : FEATURES
+      .filter((feature) => EXPRESSION_RULES[emotion][feature] !== undefined)
+      .map((feature) => ({ feature, value: features[feature], contribution: (EXPRESSION_RULES[emotion][feature] || 0) * features[feature] }))
+
+  return contributions
+    .map((entry) => ({ ...entry, contribution: Number(entry.contribution.toFixed(3)) }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+}
+
+function withFaceExpression(face: FaceResult): FaceResult {
+  const expression = face.landmarks && analyzeExpression(face.landmarks, face.emotion)
+  return expression ? { ...face, expression } : face
+}
+
+// Analyse every face that came with landmarks; the top-level expression describes faces[0], like the other top-level fields
+export function attachExpression(result: EmotionDetectionResponse): EmotionDetectionResponse {
+  if (!result.faces.some((face) => face.landmarks)) return result
+
+  const faces = result.faces.map(withFaceExpression)
+  // In ensemble mode the top-level emotion is the fused one, so the primary face is judged against that
+  const primary = faces[0]?.landmarks && analyzeExpression(faces[0].landmarks, result.emotion)
+  return { ...result, faces, ...(primary && { expression: primary }) }
+}
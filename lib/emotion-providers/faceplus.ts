@@ -0,0 +1,250 @@
+import { decodeBase64Image, type ImageLimits, validateImage } from "@/lib/image-decoder"
+import { dominantEmotion, emptyScores } from "./scores"
+import type { DetectionErrorCode, Emotion, EmotionProvider, FaceQualitySignals, FaceResult, FacialLandmarks, ProviderResult } from "./types"
+
+// FACEPLUS_API_URL points detection at another region or a local stand-in (see scripts/mock-providers)
+function detectUrl(): string {
+  const base = process.env.FACEPLUS_API_URL || "https://api-us.faceplusplus.com"
+  return `${base.replace(/\/+$/, "")}/facepp/v3/detect`
+}
+
+function getCredentials(): { apiKey: string; apiSecret: string } | null {
+  const apiKey = process.env.FACEPLUS_API_KEY || process.env.NEXT_PUBLIC_FACEPLUS_API_KEY
+  const apiSecret = process.env.FACEPLUS_API_SECRET || process.env.NEXT_PUBLIC_FACEPLUS_API_SECRET
+
+  if (!apiKey || !apiSecret || apiKey === "your_faceplus_api_key_here" || apiSecret === "your_faceplus_api_secret_here") {
+    return null
+  }
+  return { apiKey, apiSecret }
+}
+
+// Face++ image requirements, checked locally so bad frames never cost an API call
+const FACEPLUS_IMAGE_LIMITS: ImageLimits = {
+  formats: ["jpeg", "png", "bmp"],
+  minDimension: 48,
+  maxDimension: 4096,
+  maxBytes: 2 * 1024 * 1024, // 2MB
+}
+
+// Enhanced image processing for Face++ API with proper size validation
+function processImageForFacePlusPlus(imageData: string): { base64Data: string; isValid: boolean; error?: string; code?: DetectionErrorCode } {
+  try {
+    // Remove data URL prefix if present
+    const base64Data = imageData.includes(",") ? imageData.split(",")[1] : imageData
+
+    // Validate base64 format
+    if (!base64Data || base64Data.length === 0) {
+      return { base64Data: "", isValid: false, error: "Empty image data", code: "invalid_image" }
+    }
+
+    // Read format and pixel dimensions from the image header
+    const { isValid, error, code } = validateImage(decodeBase64Image(base64Data), FACEPLUS_IMAGE_LIMITS)
+    if (!isValid) {
+      return { base64Data: "", isValid: false, error, code }
+    }
+
+    return { base64Data, isValid: true }
+  } catch (error) {
+    console.error("Image processing error:", error)
+    return { base64Data: "", isValid: false, error: "Image processing failed", code: "invalid_image" }
+  }
+}
+
+// Face++ error_message prefixes, mapped to our codes with a clearer message
+const facePlusErrors: { match: string; code: DetectionErrorCode; message: string }[] = [
+  { match: "INVALID_IMAGE_SIZE", code: "image_too_small", message: "Image dimensions invalid - Face++ requires images between 48x48 and 4096x4096 pixels" },
+  { match: "INVALID_IMAGE_FORMAT", code: "unsupported_format", message: "Invalid image format - Face++ supports JPEG, PNG, and BMP" },
+  { match: "IMAGE_ERROR_UNSUPPORTED_FORMAT", code: "unsupported_format", message: "Unsupported image format - try capturing a new image" },
+  { match: "IMAGE_FILE_TOO_LARGE", code: "image_too_large", message: "Image file too large - Face++ requires images under 2MB" },
+  { match: "INVALID_API_KEY", code: "auth_invalid", message: "Invalid Face++ API key - check your credentials" },
+  { match: "AUTHENTICATION_ERROR", code: "auth_invalid", message: "Face++ rejected the API key or secret - check your credentials" },
+  { match: "INSUFFICIENT_BALANCE", code: "quota_exhausted", message: "Face++ account balance insufficient" },
+  { match: "RATE_LIMIT_EXCEEDED", code: "rate_limited", message: "Face++ rate limit exceeded - try again later" },
+  { match: "CONCURRENCY_LIMIT_EXCEEDED", code: "rate_limited", message: "Face++ is busy (concurrency limit) - try again in a moment" },
+]
+
+// Map Face++ emotions to our format
+const emotionMapping: { [key: string]: Emotion } = {
+  happiness: "happy",
+  sadness: "sad",
+  anger: "angry",
+  surprise: "surprised",
+  neutral: "neutral",
+  disgust: "disgust",
+  fear: "fear",
+}
+
+interface FacePlusFace {
+  face_rectangle?: { top: number; left: number; width: number; height: number }
+  // 83 named points with return_landmark=1; the names are what FacialLandmarks uses
+  landmark?: FacialLandmarks
+  attributes?: {
+    emotion?: { [key: string]: number }
+    facequality?: { value: number; threshold: number }
+    headpose?: { pitch_angle: number; roll_angle: number; yaw_angle: number }
+    blur?: { blurness: { value: number; threshold: number } }
+    // Each eye/mouth state is a 0-100 likelihood
+    eyestatus?: { [eye: string]: { occlusion: number; dark_glasses: number } }
+    mouthstatus?: { surgical_mask_or_respirator: number; other_occlusion: number }
+  }
+}
+
+function toQualitySignals(attributes: NonNullable<FacePlusFace["attributes"]>): FaceQualitySignals {
+  const eyeOcclusion = Math.max(0, ...Object.values(attributes.eyestatus || {}).map((eye) => Math.max(eye.occlusion, eye.dark_glasses)))
+  const mouthOcclusion = attributes.mouthstatus
+    ? Math.max(attributes.mouthstatus.surgical_mask_or_respirator, attributes.mouthstatus.other_occlusion)
+    : 0
+
+  return {
+    yaw: attributes.headpose?.yaw_angle,
+    pitch: attributes.headpose?.pitch_angle,
+    roll: attributes.headpose?.roll_angle,
+    blurry: attributes.blur ? attributes.blur.blurness.value > attributes.blur.blurness.threshold : undefined,
+    occlusion: Math.max(eyeOcclusion, mouthOcclusion) / 100,
+  }
+}
+
+function toFaceResult(face: FacePlusFace): FaceResult {
+  // Face++ reports 0-100 per emotion
+  const allEmotions = emptyScores()
+  Object.entries(face.attributes?.emotion || {}).forEach(([emotion, confidence]) => {
+    const mappedEmotion = emotionMapping[emotion]
+    if (mappedEmotion) {
+      allEmotions[mappedEmotion] = confidence / 100
+    }
+  })
+  const dominant = dominantEmotion(allEmotions)
+  const faceQuality = face.attributes?.facequality
+
+  return {
+    bounding_box: face.face_rectangle,
+    emotion: dominant.emotion,
+    confidence: dominant.confidence,
+    all_emotions: allEmotions,
+    face_quality: faceQuality ? faceQuality.value / 100 : undefined,
+    quality_threshold: faceQuality ? faceQuality.threshold / 100 : undefined,
+    quality_signals: face.attributes ? toQualitySignals(face.attributes) : undefined,
+    landmarks: face.landmark,
+  }
+}
+
+// Face++ API integration with enhanced error handling
+export const facePlusProvider: EmotionProvider<"faceplus", "faceplus_direct"> = {
+  id: "faceplus",
+  serviceMode: "faceplus_direct",
+  simulated: false,
+  defaultTimeoutMs: 20000,
+  features: ["emotion", "multi_face", "bounding_boxes", "face_quality", "landmarks"],
+
+  isConfigured() {
+    return getCredentials() !== null
+  },
+
+  // An unauthenticated GET is rejected without touching the account's quota; any HTTP answer means the API is up
+  async ping() {
+    try {
+      await fetch(detectUrl(), { method: "GET", signal: AbortSignal.timeout(3000) })
+      return true
+    } catch (error) {
+      return false
+    }
+  },
+
+  async detect(imageData, { timeoutMs }): Promise<ProviderResult> {
+    const credentials = getCredentials()
+    if (!credentials) {
+      return { success: false, error: "Face++ API credentials not configured", code: "no_provider", service_used: "faceplus" }
+    }
+
+    try {
+      // Process and validate image
+      const { base64Data, isValid, error, code } = processImageForFacePlusPlus(imageData)
+      if (!isValid) {
+        return { success: false, error: `Image validation failed: ${error}`, code: code || "invalid_image", service_used: "faceplus" }
+      }
+
+      // Create form data for Face++ API
+      const formData = new FormData()
+      formData.append("api_key", credentials.apiKey)
+      formData.append("api_secret", credentials.apiSecret)
+      formData.append("image_base64", base64Data)
+      formData.append("return_landmark", "1")
+      formData.append("return_attributes", "emotion,age,gender,facequality,headpose,blur,eyestatus,mouthstatus")
+
+      const response = await fetch(detectUrl(), {
+        method: "POST",
+        body: formData,
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+
+      const responseText = await response.text()
+
+      if (!response.ok) {
+        // Parse error for better handling
+        try {
+          const errorData = JSON.parse(responseText)
+          const errorMessage: string = errorData.error_message || `HTTP ${response.status}`
+          const known = facePlusErrors.find(({ match }) => errorMessage.includes(match))
+
+          return {
+            success: false,
+            error: known?.message || errorMessage,
+            code: known?.code || "provider_error",
+            service_used: "faceplus",
+          }
+        } catch (parseError) {
+          return {
+            success: false,
+            error: `Face++ API error: ${response.status} - ${responseText.substring(0, 200)}`,
+            code: response.status === 429 ? "rate_limited" : "provider_error",
+            service_used: "faceplus",
+          }
+        }
+      }
+
+      const result = JSON.parse(responseText)
+
+      // Face++ only analyses attributes for the five largest faces; skip the rest
+      const faces: FaceResult[] = (result.faces || [])
+        .filter((face: FacePlusFace) => face.attributes?.emotion)
+        .map(toFaceResult)
+
+      if (faces.length > 0) {
+        const primary = faces[0]
+
+        return {
+          success: true,
+          emotion: primary.emotion,
+          confidence: primary.confidence,
+          all_emotions: primary.all_emotions,
+          face_detected: true,
+          face_quality: primary.face_quality,
+          faces,
+          service_used: "faceplus",
+          service_mode: "faceplus_direct",
+        }
+      }
+
+      // No face, no reading: empty scores rather than a made-up neutral
+      return {
+        success: true,
+        emotion: "neutral",
+        confidence: 0,
+        all_emotions: emptyScores(),
+        face_detected: false,
+        faces: [],
+        service_used: "faceplus",
+        service_mode: "faceplus_direct",
+      }
+    } catch (error) {
+      if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
+        return { success: false, error: "Face++ API timeout - try again", code: "provider_timeout", service_used: "faceplus" }
+      }
+      if (error instanceof Error && !error.message.includes("fetch")) {
+        return { success: false, error: error.message, code: "provider_error", service_used: "faceplus" }
+      }
+
+      return { success: false, error: "Face++ API network error", code: "provider_unreachable", service_used: "faceplus" }
+    }
+  },
+}
@@ -0,0 +1,136 @@
+import { type CircuitSnapshot, providerCircuitBreakers } from "./circuit-breaker"
+import { emotionProviderRegistry } from "./registry"
+import type { EmotionProvider, ProviderFeature, ProviderId, ServiceMode } from "./types"
+
+// Reachability probes are reused for this long so page loads never hammer providers
+const HEALTH_CACHE_MS = 30_000
+// Latency is averaged over this many recent detect() calls
+const LATENCY_SAMPLES = 20
+
+export interface ProviderHealth {
+  id: ProviderId
+  service_mode: ServiceMode
+  simulated: boolean
+  // Listed in EMOTION_PROVIDERS and not disabled
+  enabled: boolean
+  configured: boolean
+  // null when the provider wasn't probed because it is disabled or unconfigured
+  reachable: boolean | null
+  latency_ms: { last: number; average: number } | null
+  last_error: { message: string; at: string } | null
+  last_success_at: string | null
+  // Open means detections are currently skipping this provider
+  circuit: CircuitSnapshot
+  features: ProviderFeature[]
+}
+
+export interface HealthReport {
+  checked_at: string
+  // First enabled, configured and reachable non-simulated provider, i.e. the one detections will use
+  active_provider: ProviderId | null
+  providers: ProviderHealth[]
+}
+
+interface ProviderStats {
+  latencies: number[]
+  lastError: { message: string; at: string } | null
+  lastSuccessAt: string | null
+}
+
+class ProviderHealthMonitor {
+  private stats = new Map<ProviderId, ProviderStats>()
+  private probes: { reachable: Map<ProviderId, boolean>; checkedAt: number } | null = null
+  private pendingProbes: Promise<Map<ProviderId, boolean>> | null = null
+
+  private statsFor(id: ProviderId): ProviderStats {
+    let stats = this.stats.get(id)
+    if (!stats) {
+      stats = { latencies: [], lastError: null, lastSuccessAt: null }
+      this.stats.set(id, stats)
+    }
+    return stats
+  }
+
+  private recordLatency(id: ProviderId, latencyMs: number) {
+    const stats = this.statsFor(id)
+    stats.latencies = [...stats.latencies, Math.round(latencyMs)].slice(-LATENCY_SAMPLES)
+  }
+
+  recordSuccess(id: ProviderId, latencyMs: number) {
+    this.recordLatency(id, latencyMs)
+    this.statsFor(id).lastSuccessAt = new Date().toISOString()
+  }
+
+  recordFailure(id: ProviderId, error: string, latencyMs?: number) {
+    if (latencyMs !== undefined) this.recordLatency(id, latencyMs)
+    this.statsFor(id).lastError = { message: error, at: new Date().toISOString() }
+  }
+
+  private async probe(provider: EmotionProvider): Promise<boolean> {
+    const check = provider.ping ?? provider.isAvailable
+    if (!check) return true
+    try {
+      return await check.call(provider)
+    } catch (error) {
+      return false
+    }
+  }
+
+  // Probe every enabled, configured provider at most once per HEALTH_CACHE_MS, sharing in-flight probes
+  private async reachability(providers: EmotionProvider[]): Promise<Map<ProviderId, boolean>> {
+    if (this.probes && Date.now() - this.probes.checkedAt < HEALTH_CACHE_MS) {
+      return this.probes.reachable
+    }
+    if (!this.pendingProbes) {
+      this.pendingProbes = Promise.all(providers.map(async (provider) => [provider.id, await this.probe(provider)] as const))
+        .then((entries) => {
+          const reachable = new Map<ProviderId, boolean>(entries)
+          this.probes = { reachable, checkedAt: Date.now() }
+          return reachable
+        })
+        .finally(() => {
+          this.pendingProbes = null
+        })
+    }
+    return this.pendingProbes
+  }
+
+  async getReport(): Promise<HealthReport> {
+    const chain = emotionProviderRegistry.resolveChain().map(({ provider }) => provider)
+    const probed = chain.filter((provider) => provider.isConfigured())
+    const reachable = await this.reachability(probed)
+
+    const providers = emotionProviderRegistry.list().map((provider): ProviderHealth => {
+      const enabled = chain.includes(provider)
+      const configured = provider.isConfigured()
+      const stats = this.statsFor(provider.id)
+      const average = stats.latencies.reduce((sum, latency) => sum + latency, 0) / (stats.latencies.length || 1)
+
+      return {
+        id: provider.id,
+        service_mode: provider.serviceMode,
+        simulated: provider.simulated,
+        enabled,
+        configured,
+        reachable: enabled && configured ? reachable.get(provider.id) ?? null : null,
+        latency_ms: stats.latencies.length > 0
+          ? { last: stats.latencies[stats.latencies.length - 1], average: Math.round(average) }
+          : null,
+        last_error: stats.lastError,
+        last_success_at: stats.lastSuccessAt,
+        circuit: providerCircuitBreakers.get(provider.id).snapshot(),
+        features: provider.features,
+      }
+    })
+
+    const active = chain.find((provider) => !provider.simulated && provider.isConfigured() && reachable.get(provider.id))
+
+    return {
+      checked_at: new Date(this.probes?.checkedAt ?? Date.now()).toISOString(),
+      active_provider: active?.id ?? null,
+      providers,
+    }
+  }
+}
+
+export const providerHealthMonitor = new ProviderHealthMonitor()
@@ -0,0 +1,180 @@
+import { coordinatesFromEmotions } from "@/lib/circumplex"
+import { applyBaseline } from "./calibration"
+import { countsAsBreakerFailure, providerCircuitBreakers } from "./circuit-breaker"
+import { ensembleEnabled, type EnsembleMember, fuseResults } from "./ensemble"
+import { attachExpression } from "./expression"
+import { providerHealthMonitor } from "./health"
+import { BUILT_IN_PROVIDERS } from "./providers"
+import { assessQuality } from "./quality"
+import { emotionProviderRegistry, type ResolvedProvider } from "./registry"
+import { aggregateGroupMood, classifyOutcome } from "./scores"
+import { effectiveSimulationOptions } from "./simulation"
+import type { EmotionDetectionFailure, EmotionDetectionResponse, NeutralBaseline, ProviderId, SimulationOptions } from "./types"
+
+export * from "./types"
+export { buildBaseline, MIN_CALIBRATION_FRAMES, parseBaseline } from "./calibration"
+export { providerCircuitBreakers, type CircuitSnapshot, type CircuitState } from "./circuit-breaker"
+export { detectionErrorBody, isRetryable } from "./errors"
+export { analyzeExpression, measureFeatures } from "./expression"
+export { providerHealthMonitor, type HealthReport, type ProviderHealth } from "./health"
+export { assessQuality } from "./quality"
+export { emotionProviderRegistry, loadProviderConfig } from "./registry"
+export { classifyOutcome, temporalConsensus } from "./scores"
+export { analyzeImageCharacteristics, parseSimulationOptions } from "./simulation"
+
+for (const provider of BUILT_IN_PROVIDERS) {
+  emotionProviderRegistry.register(provider)
+}
+
+export interface DetectionOptions {
+  forceRealDetection?: boolean
+  simulation?: SimulationOptions
+  baseline?: NeutralBaseline
+  // Query every real provider in parallel and fuse their scores; defaults to EMOTION_ENSEMBLE
+  ensemble?: boolean
+}
+
+export interface DetectionOutcome {
+  result: EmotionDetectionResponse | null
+  // Providers that were configured and reachable but failed, in chain order
+  failures: EmotionDetectionFailure[]
+  // True if at least one non-simulated provider was eligible to run
+  realProviderConfigured: boolean
+}
+
+export function getProviderChain(options: DetectionOptions = {}): ResolvedProvider[] {
+  return emotionProviderRegistry
+    .resolveChain()
+    .filter(({ provider }) => !(options.forceRealDetection && provider.simulated))
+    .filter(({ provider }) => provider.isConfigured())
+}
+
+// Attach the quality gate verdict and scale confidence by it. Scripted simulation results skip the
+// gate so replays don't depend on the pixels of whatever frame was sent, whether the script came
+// with the request or from the EMOTION_SIMULATION_* defaults. Results from a real provider are
+// always gated, even on a server with those defaults set.
+function withQuality(result: EmotionDetectionResponse, image: string, options: DetectionOptions): EmotionDetectionResponse {
+  const { seed, timeline } = effectiveSimulationOptions(options.simulation)
+  const scripted = seed !== undefined || timeline !== undefined
+  if (!result.face_detected || (scripted && result.service_mode === "simulation")) return result
+  const quality = assessQuality(result, image)
+  return { ...result, confidence: Number((result.confidence * quality.score).toFixed(3)), quality }
+}
+
+// Everything derived from the final scores and faces, applied once whether one provider answered or several.
+// The baseline goes first, on the same (possibly fused) scores it was measured on; the outcome comes last
+// so it sees the quality-scaled confidence.
+function finalizeResult(result: EmotionDetectionResponse, image: string, options: DetectionOptions): EmotionDetectionResponse {
+  const calibrated = options.baseline ? applyBaseline(result, options.baseline) : result
+  const finalized = withQuality(attachExpression({
+    ...coordinatesFromEmotions(calibrated.all_emotions),
+    ...calibrated,
+    group_mood: aggregateGroupMood(calibrated.faces),
+  }), image, options)
+  return { ...finalized, ...classifyOutcome(finalized.all_emotions, finalized.confidence) }
+}
+
+/**
+ * One provider call with its circuit breaker, health check and bookkeeping. Resolves to null when
+ * the provider was skipped (open circuit or failed health check) rather than asked.
+ */
+async function attemptProvider(
+  { provider, timeoutMs }: ResolvedProvider,
+  image: string,
+  options: DetectionOptions,
+): Promise<EmotionDetectionResponse | EmotionDetectionFailure | null> {
+  // Open circuit: skip without paying for a health check or a timeout
+  const breaker = providerCircuitBreakers.get(provider.id)
+  if (!breaker.allowRequest()) {
+    return null
+  }
+
+  if (provider.isAvailable && breaker.needsHealthCheck()) {
+    if (!(await provider.isAvailable())) {
+      breaker.recordFailure("Service unreachable")
+      providerHealthMonitor.recordFailure(provider.id, "Service unreachable")
+      return null
+    }
+    breaker.recordHealthy()
+  }
+
+  const startedAt = Date.now()
+  const result = await provider.detect(image, { timeoutMs, simulation: options.simulation })
+  if (result.success) {
+    breaker.recordSuccess()
+    providerHealthMonitor.recordSuccess(provider.id, Date.now() - startedAt)
+    return result
+  }
+
+  console.warn(`⚠️ Emotion provider "${provider.id}" failed: ${result.error}`)
+  providerHealthMonitor.recordFailure(provider.id, result.error, Date.now() - startedAt)
+  // A rejected image or empty frame still proves the provider is up
+  if (countsAsBreakerFailure(result.code)) {
+    breaker.recordFailure(result.error)
+  } else {
+    breaker.recordSuccess()
+  }
+  return result
+}
+
+// Ask every real provider at once and fuse whatever answers. Needs at least two real providers configured.
+async function detectWithEnsemble(
+  chain: ResolvedProvider[],
+  image: string,
+  options: DetectionOptions,
+  failures: EmotionDetectionFailure[],
+): Promise<{ result: EmotionDetectionResponse | null; asked: ProviderId[] }> {
+  const members = chain.filter(({ provider }) => !provider.simulated)
+  if (members.length < 2) return { result: null, asked: [] }
+
+  const attempts = await Promise.all(members.map((member) => attemptProvider(member, image, options)))
+  const answered: EnsembleMember[] = []
+  const failed: ProviderId[] = []
+
+  attempts.forEach((attempt, index) => {
+    if (attempt?.success) {
+      answered.push({ result: attempt, weight: members[index].weight })
+    } else {
+      failed.push(members[index].provider.id)
+      if (attempt) failures.push(attempt)
+    }
+  })
+
+  return {
+    result: answered.length > 0 ? fuseResults(answered, failed) : null,
+    asked: members.map(({ provider }) => provider.id),
+  }
+}
+
+/**
+ * Walk the configured chain and return the first successful result. In ensemble mode the real
+ * providers are queried in parallel and fused instead; the chain is still the fallback when
+ * none of them answer.
+ */
+export async function detectWithProviders(image: string, options: DetectionOptions = {}): Promise<DetectionOutcome> {
+  const chain = getProviderChain(options)
+  const failures: EmotionDetectionFailure[] = []
+  const realProviderConfigured = chain.some(({ provider }) => !provider.simulated)
+
+  let asked: ProviderId[] = []
+  if (options.ensemble ?? ensembleEnabled()) {
+    const ensemble = await detectWithEnsemble(chain, image, options, failures)
+    if (ensemble.result) {
+      return { result: finalizeResult(ensemble.result, image, options), failures, realProviderConfigured }
+    }
+    asked = ensemble.asked
+  }
+
+  for (const resolved of chain) {
+    // Providers the ensemble already asked aren't asked twice
+    if (asked.includes(resolved.provider.id)) continue
+
+    const result = await attemptProvider(resolved, image, options)
+    if (result?.success) {
+      return { result: finalizeResult(result, image, options), failures, realProviderConfigured }
+    }
+    if (result) failures.push(result)
+  }
+
+  return { result: null, failures, realProviderConfigured }
+}
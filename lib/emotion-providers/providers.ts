@@ -0,0 +1,7 @@
+import { deepFaceProvider } from "./deepface"
+import { facePlusProvider } from "./faceplus"
+import { simulationProvider } from "./simulation"
+
+// Every built-in backend, in default chain order. ProviderId and the providers' service modes are
+// read off this list, so a new provider is its module plus an entry here.
+export const BUILT_IN_PROVIDERS = [deepFaceProvider, facePlusProvider, simulationProvider] as const
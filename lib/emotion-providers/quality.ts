@@ -0,0 +1,101 @@
+import { computePixelStats, cropImage, decodeBase64Image, decodeImage } from "@/lib/image-decoder"
+import type { EmotionDetectionResponse, FaceResult, QualityAssessment, QualityIssue } from "./types"
+
+// Mean luma (0..1) of the face, or of the frame when there is no box
+const DARK_BLOCKING = 0.15
+const DARK_SOFT = 0.25
+const BRIGHT_BLOCKING = 0.92
+// Laplacian variance of the whole frame; see computePixelStats
+const SHARPNESS_BLOCKING = 20
+// Face width as a share of frame width
+const FACE_SIZE_BLOCKING = 0.06
+const FACE_SIZE_SOFT = 0.12
+// Degrees away from facing the camera
+const YAW_BLOCKING = 40
+const PITCH_BLOCKING = 30
+const POSE_SOFT = 15
+const OCCLUSION_BLOCKING = 0.6
+
+// Order in which issues are reported, and so which hint the UI shows first
+const ISSUE_PRIORITY: QualityIssue[] = ["too_dark", "too_bright", "face_too_small", "occluded", "extreme_pose", "too_blurry", "low_quality"]
+
+/**
+ * Decide whether a detection can be trusted. Blocking issues fail the gate; softer ones
+ * only shrink `score`, which scales confidence and the frame's weight in temporal smoothing.
+ * Pixel checks (light, blur, face size) run on our own decode of the submitted frame;
+ * pose, occlusion and provider blur come from the provider's per-face signals when present.
+ */
+export function assessQuality(result: EmotionDetectionResponse, image: string): QualityAssessment {
+  const blocking = new Set<QualityIssue>()
+  const soft = new Set<QualityIssue>()
+  let score = 1
+
+  const face: FaceResult | undefined = result.face_detected ? result.faces[0] : undefined
+  const decoded = decodeImage(decodeBase64Image(image))
+
+  if (decoded) {
+    const frameStats = computePixelStats(decoded)
+    const box = face?.bounding_box
+    const lightStats = box ? computePixelStats(cropImage(decoded, box)) : frameStats
+
+    if (lightStats.brightness < DARK_BLOCKING) {
+      blocking.add("too_dark")
+    } else if (lightStats.brightness < DARK_SOFT) {
+      soft.add("too_dark")
+      score *= 0.7
+    } else if (lightStats.brightness > BRIGHT_BLOCKING) {
+      blocking.add("too_bright")
+    }
+
+    if (frameStats.sharpness < SHARPNESS_BLOCKING) {
+      blocking.add("too_blurry")
+    } else if (frameStats.blurry) {
+      soft.add("too_blurry")
+      score *= 0.7
+    }
+
+    if (box) {
+      const relativeWidth = box.width / decoded.width
+      if (relativeWidth < FACE_SIZE_BLOCKING) {
+        blocking.add("face_too_small")
+      } else if (relativeWidth < FACE_SIZE_SOFT) {
+        soft.add("face_too_small")
+        score *= 0.8
+      }
+    }
+  }
+
+  const signals = face?.quality_signals
+  if (signals) {
+    const yaw = Math.abs(signals.yaw ?? 0)
+    const pitch = Math.abs(signals.pitch ?? 0)
+    if (yaw > YAW_BLOCKING || pitch > PITCH_BLOCKING) {
+      blocking.add("extreme_pose")
+    } else if (Math.max(yaw, pitch) > POSE_SOFT) {
+      soft.add("extreme_pose")
+      // Linear from 1 at POSE_SOFT down to 0.5 at the blocking angle
+      const worst = Math.max((yaw - POSE_SOFT) / (YAW_BLOCKING - POSE_SOFT), (pitch - POSE_SOFT) / (PITCH_BLOCKING - POSE_SOFT))
+      score *= 1 - 0.5 * Math.min(1, worst)
+    }
+
+    if ((signals.occlusion ?? 0) > OCCLUSION_BLOCKING) {
+      blocking.add("occluded")
+    }
+    if (signals.blurry) {
+      blocking.add("too_blurry")
+    }
+  }
+
+  // Below the provider's own threshold the face is usable, just less reliable
+  if (face?.face_quality !== undefined && face.quality_threshold !== undefined && face.face_quality < face.quality_threshold) {
+    soft.add("low_quality")
+    score *= 0.6
+  }
+
+  const issues = ISSUE_PRIORITY.filter((issue) => blocking.has(issue) || soft.has(issue))
+  return {
+    passed: blocking.size === 0,
+    score: blocking.size > 0 ? 0 : Number(score.toFixed(3)),
+    issues,
+  }
+}
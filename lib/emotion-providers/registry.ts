@@ -0,0 +1,83 @@
+import { BUILT_IN_PROVIDERS } from "./providers"
+import type { EmotionProvider, ProviderId } from "./types"
+
+// Every built-in provider, in the order they're listed
+const DEFAULT_PROVIDER_ORDER = BUILT_IN_PROVIDERS.map(({ id }) => id).join(",")
+
+export interface ProviderConfig {
+  id: string
+  enabled: boolean
+  timeoutMs: number
+  // Share of the vote in ensemble mode
+  weight: number
+}
+
+export interface ResolvedProvider {
+  provider: EmotionProvider
+  timeoutMs: number
+  weight: number
+}
+
+/**
+ * Reads the provider chain from the environment:
+ *   EMOTION_PROVIDERS=deepface,faceplus,simulation   (order of the chain)
+ *   EMOTION_PROVIDER_FACEPLUS_ENABLED=false          (drop one without reordering)
+ *   EMOTION_PROVIDER_FACEPLUS_TIMEOUT_MS=10000       (per-provider request timeout)
+ *   EMOTION_PROVIDER_FACEPLUS_WEIGHT=2               (vote weight in ensemble mode, default 1)
+ */
+export function loadProviderConfig(env: NodeJS.ProcessEnv = process.env): ProviderConfig[] {
+  const order = (env.EMOTION_PROVIDERS || DEFAULT_PROVIDER_ORDER)
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean)
+
+  return order.map((id) => {
+    const prefix = `EMOTION_PROVIDER_${id.toUpperCase()}`
+    const timeout = Number(env[`${prefix}_TIMEOUT_MS`])
+    const weight = Number(env[`${prefix}_WEIGHT`])
+
+    return {
+      id,
+      enabled: env[`${prefix}_ENABLED`] !== "false",
+      timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : 0,
+      weight: env[`${prefix}_WEIGHT`] !== undefined && Number.isFinite(weight) && weight >= 0 ? weight : 1,
+    }
+  })
+}
+
+export class EmotionProviderRegistry {
+  private providers = new Map<ProviderId, EmotionProvider>()
+
+  register(provider: EmotionProvider): void {
+    this.providers.set(provider.id, provider)
+  }
+
+  get(id: ProviderId): EmotionProvider | undefined {
+    return this.providers.get(id)
+  }
+
+  list(): EmotionProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  // Providers in configured order, with disabled and unknown entries removed
+  resolveChain(config: ProviderConfig[] = loadProviderConfig()): ResolvedProvider[] {
+    const chain: ResolvedProvider[] = []
+
+    for (const entry of config) {
+      if (!entry.enabled) continue
+
+      const provider = this.providers.get(entry.id as ProviderId)
+      if (!provider) {
+        console.warn(`⚠️ Unknown emotion provider "${entry.id}" in EMOTION_PROVIDERS, skipping`)
+        continue
+      }
+
+      chain.push({ provider, timeoutMs: entry.timeoutMs || provider.defaultTimeoutMs, weight: entry.weight })
+    }
+
+    return chain
+  }
+}
+
+export const emotionProviderRegistry = new EmotionProviderRegistry()
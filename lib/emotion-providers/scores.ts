@@ -0,0 +1,158 @@
+import { coordinatesFromEmotions, roundCoordinate } from "@/lib/circumplex"
+import {
+  EMOTIONS,
+  type Emotion,
+  type EmotionDetectionResponse,
+  type EmotionScores,
+  type FaceResult,
+  type GroupMood,
+  type OutcomeAssessment,
+  type TemporalConsensus,
+} from "./types"
+
+export function emptyScores(): EmotionScores {
+  return { happy: 0, sad: 0, angry: 0, surprised: 0, neutral: 0, disgust: 0, fear: 0 }
+}
+
+// Coerce an arbitrary { label: score } map into our seven labels, dropping anything unknown
+export function toEmotionScores(raw: { [key: string]: unknown } | undefined): EmotionScores {
+  const scores = emptyScores()
+  if (!raw) return scores
+
+  for (const emotion of EMOTIONS) {
+    const value = Number(raw[emotion])
+    scores[emotion] = Number.isFinite(value) ? value : 0
+  }
+  return scores
+}
+
+export function dominantEmotion(scores: EmotionScores): { emotion: Emotion; confidence: number } {
+  let emotion: Emotion = "neutral"
+  let confidence = 0
+
+  for (const candidate of EMOTIONS) {
+    if (scores[candidate] > confidence) {
+      confidence = scores[candidate]
+      emotion = candidate
+    }
+  }
+  return { emotion, confidence }
+}
+
+// Under half the probability on the top emotion and it's a guess, not a reading
+export const UNCERTAIN_CONFIDENCE = 0.5
+// Top two closer than this share of the distribution and it's a blend of both
+export const MIXED_MARGIN = 0.1
+
+/**
+ * Decide whether a distribution is a clear read. A near tie between the top two is "mixed"
+ * even when confident overall; otherwise a weak top emotion is "uncertain". The confidence
+ * passed in is the reported one, so a quality-scaled confidence can make a read uncertain.
+ */
+export function classifyOutcome(scores: EmotionScores, confidence: number): OutcomeAssessment {
+  const total = EMOTIONS.reduce((sum, emotion) => sum + Math.max(0, scores[emotion]), 0)
+  const ranked = EMOTIONS
+    .map((emotion) => ({ emotion, share: total > 0 ? Math.max(0, scores[emotion]) / total : 0 }))
+    .filter(({ share }) => share > 0)
+    .sort((a, b) => b.share - a.share)
+
+  if (ranked.length >= 2 && ranked[0].share - ranked[1].share < MIXED_MARGIN) {
+    return { outcome: "mixed", candidates: ranked.slice(0, 2).map(({ emotion }) => emotion) }
+  }
+  if (confidence < UNCERTAIN_CONFIDENCE) {
+    return { outcome: "uncertain", candidates: ranked.slice(0, 3).map(({ emotion }) => emotion) }
+  }
+  return { outcome: "confident", candidates: ranked.slice(0, 1).map(({ emotion }) => emotion) }
+}
+
+// Bigger (closer) and sharper faces count for more in the room's mood
+export function aggregateGroupMood(faces: FaceResult[]): GroupMood | undefined {
+  if (faces.length === 0) return undefined
+
+  const allEmotions = emptyScores()
+  let totalWeight = 0
+
+  for (const face of faces) {
+    const area = face.bounding_box ? face.bounding_box.width * face.bounding_box.height : 1
+    const weight = Math.max(area, 1) * (face.face_quality ?? 1)
+    totalWeight += weight
+
+    for (const emotion of EMOTIONS) {
+      allEmotions[emotion] += face.all_emotions[emotion] * weight
+    }
+  }
+
+  if (totalWeight > 0) {
+    for (const emotion of EMOTIONS) {
+      allEmotions[emotion] /= totalWeight
+    }
+  }
+
+  const dominant = dominantEmotion(allEmotions)
+  return {
+    emotion: dominant.emotion,
+    confidence: dominant.confidence,
+    all_emotions: allEmotions,
+    ...coordinatesFromEmotions(allEmotions),
+    face_count: faces.length,
+    ...classifyOutcome(allEmotions, dominant.confidence),
+  }
+}
+
+// Later frames count for more; each step back in time keeps this share of the weight
+const RECENCY_DECAY = 0.85
+// Frames where no face was found still vote, but barely
+const NO_FACE_WEIGHT = 0.25
+
+// Smooth a burst of frames (oldest first) so one blink or mid-word frame can't decide the mood
+export function temporalConsensus(frames: EmotionDetectionResponse[]): TemporalConsensus | undefined {
+  if (frames.length === 0) return undefined
+
+  const allEmotions = emptyScores()
+  const frameVotes: { emotion: Emotion; weight: number }[] = []
+  let valence = 0
+  let arousal = 0
+  let totalWeight = 0
+
+  frames.forEach((frame, index) => {
+    // Match what the page recommends for: the room's mood when several people are in frame
+    const room = frame.group_mood && frame.group_mood.face_count > 1 ? frame.group_mood : undefined
+    const scores = room ? room.all_emotions : frame.all_emotions
+    // Averaged per frame rather than re-derived, so directly measured coordinates survive smoothing
+    const point = room ?? (frame.valence !== undefined && frame.arousal !== undefined
+      ? { valence: frame.valence, arousal: frame.arousal }
+      : coordinatesFromEmotions(scores))
+    const weight = RECENCY_DECAY ** (frames.length - 1 - index)
+      * (frame.face_detected ? 1 : NO_FACE_WEIGHT)
+      // Dim or turned-away frames count for less
+      * (frame.quality?.score ?? 1)
+    totalWeight += weight
+    frameVotes.push({ emotion: dominantEmotion(scores).emotion, weight })
+    valence += point.valence * weight
+    arousal += point.arousal * weight
+
+    for (const emotion of EMOTIONS) {
+      allEmotions[emotion] += scores[emotion] * weight
+    }
+  })
+
+  for (const emotion of EMOTIONS) {
+    allEmotions[emotion] /= totalWeight
+  }
+
+  const dominant = dominantEmotion(allEmotions)
+  const agreeingWeight = frameVotes
+    .filter((vote) => vote.emotion === dominant.emotion)
+    .reduce((sum, vote) => sum + vote.weight, 0)
+
+  return {
+    emotion: dominant.emotion,
+    confidence: dominant.confidence,
+    all_emotions: allEmotions,
+    valence: roundCoordinate(valence / totalWeight),
+    arousal: roundCoordinate(arousal / totalWeight),
+    stability: agreeingWeight / totalWeight,
+    frame_count: frames.length,
+    ...classifyOutcome(allEmotions, dominant.confidence),
+  }
+}
@@ -0,0 +1,353 @@
+import { computePixelStats, decodeBase64Image, decodeImage } from "@/lib/image-decoder"
+import { emptyScores } from "./scores"
+import {
+  EMOTIONS,
+  type Emotion,
+  type EmotionDetectionResponse,
+  type EmotionProvider,
+  type SimulationOptions,
+  type TimelineEntry,
+} from "./types"
+
+export interface ImageCharacteristics {
+  // False when the image could not be decoded; the other fields are then neutral defaults
+  analyzed: boolean
+  // Mean luma of the decoded pixels, 0..1
+  brightness: number
+  // Luma standard deviation, 0..0.5
+  contrast: number
+  // Laplacian variance; see computePixelStats
+  sharpness: number
+  blurry: boolean
+  // 0.4 (dark) .. 0.7 (bright); scales positive vs negative emotion weights
+  imageVariance: number
+}
+
+// FNV-1a string hash, used to turn any seed into 32 bits
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32: small, fast, good-enough PRNG returning values in [0, 1)
+export function createSeededRandom(seed: string | number): () => number {
+  let state = hashSeed(String(seed))
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pure function of the encoded image: no clock, no randomness.
+ *
+ * Decodes the JPEG/PNG and measures brightness, contrast and blur on the pixels. Images
+ * that cannot be decoded are not analysed and get the neutral variance 0.5.
+ * - brightness > 0.6  => imageVariance 0.7 (favours happy/surprised)
+ * - brightness < 0.4  => imageVariance 0.4 (favours sad/angry)
+ * - otherwise         => imageVariance 0.5
+ * Blurry or flat (contrast < 0.08) frames lower the simulated confidence.
+ */
+export function analyzeImageCharacteristics(imageData?: string): ImageCharacteristics {
+  const neutral = { analyzed: false, brightness: 0.5, contrast: 0, sharpness: 0, blurry: false, imageVariance: 0.5 }
+  if (!imageData) return neutral
+
+  const decoded = decodeImage(decodeBase64Image(imageData))
+  if (!decoded) return neutral
+
+  const { brightness, contrast, sharpness, blurry } = computePixelStats(decoded)
+
+  let imageVariance = 0.5
+  if (brightness > 0.6) {
+    // Brighter images tend to correlate with positive emotions
+    imageVariance += 0.2
+  } else if (brightness < 0.4) {
+    // Darker images might correlate with sadder emotions
+    imageVariance -= 0.1
+  }
+
+  return { analyzed: true, brightness, contrast, sharpness, blurry, imageVariance }
+}
+
+// Scripted entry: the named emotion at the given confidence, the rest spread evenly
+function scriptedEmotion(entry: TimelineEntry, step: number, length: number): EmotionDetectionResponse {
+  const confidence = Math.min(Math.max(entry.confidence ?? 0.8, 0), 1)
+  const allEmotions = emptyScores()
+  EMOTIONS.forEach(emotion => {
+    allEmotions[emotion] = emotion === entry.emotion ? confidence : (1 - confidence) / (EMOTIONS.length - 1)
+  })
+
+  return {
+    success: true,
+    emotion: entry.emotion,
+    confidence,
+    all_emotions: allEmotions,
+    face_detected: true,
+    faces: [{ emotion: entry.emotion, confidence, all_emotions: allEmotions }],
+    service_used: "simulation",
+    service_mode: "simulation",
+    analysis_details: {
+      timeline_step: step % length,
+      timeline_length: length,
+    },
+  }
+}
+
+function resolveClock(now: SimulationOptions["now"]): Date {
+  if (now === undefined) return new Date()
+  const date = new Date(now)
+  return Number.isNaN(date.getTime()) ? new Date() : date
+}
+
+// Enhanced realistic emotion simulation with image analysis
+export function generateRealisticEmotion(imageData?: string, options: SimulationOptions = {}): EmotionDetectionResponse {
+  const step = options.step ?? 0
+
+  if (options.timeline && options.timeline.length > 0) {
+    return scriptedEmotion(options.timeline[step % options.timeline.length], step, options.timeline.length)
+  }
+
+  const random = options.seed !== undefined ? createSeededRandom(`${options.seed}:${step}`) : Math.random
+  const clock = resolveClock(options.now)
+
+  let primaryEmotion: Emotion = 'neutral'
+  let confidence = 0.75
+
+  // Realistic emotion patterns based on time and image analysis
+  const timeOfDay = clock.getHours()
+  const dayOfWeek = clock.getDay()
+
+  const image = analyzeImageCharacteristics(imageData)
+  const { imageVariance } = image
+
+  // Time-based emotion tendencies (more realistic patterns)
+  const emotionProbabilities = {
+    happy: 0.25,
+    neutral: 0.20,
+    surprised: 0.15,
+    sad: 0.12,
+    angry: 0.10,
+    fear: 0.10,
+    disgust: 0.08
+  }
+
+  // Adjust probabilities based on time of day
+  if (timeOfDay >= 6 && timeOfDay <= 10) {
+    // Morning - slightly more neutral/surprised
+    emotionProbabilities.neutral += 0.1
+    emotionProbabilities.surprised += 0.05
+    emotionProbabilities.happy -= 0.05
+  } else if (timeOfDay >= 18 && timeOfDay <= 22) {
+    // Evening - slightly more happy/relaxed
+    emotionProbabilities.happy += 0.1
+    emotionProbabilities.neutral += 0.05
+    emotionProbabilities.angry -= 0.05
+  } else if (timeOfDay >= 22 || timeOfDay <= 5) {
+    // Late night - more tired/neutral
+    emotionProbabilities.neutral += 0.15
+    emotionProbabilities.sad += 0.05
+    emotionProbabilities.happy -= 0.1
+  }
+
+  // Weekend vs weekday adjustments
+  if (dayOfWeek === 0 || dayOfWeek === 6) {
+    // Weekend - slightly happier
+    emotionProbabilities.happy += 0.08
+    emotionProbabilities.angry -= 0.03
+    emotionProbabilities.sad -= 0.02
+  }
+
+  // Apply image variance
+  Object.keys(emotionProbabilities).forEach(emotion => {
+    if (emotion === 'happy' || emotion === 'surprised') {
+      emotionProbabilities[emotion as keyof typeof emotionProbabilities] *= (1 + imageVariance * 0.3)
+    } else if (emotion === 'sad' || emotion === 'angry') {
+      emotionProbabilities[emotion as keyof typeof emotionProbabilities] *= (1 - imageVariance * 0.2)
+    }
+  })
+
+  // Normalize probabilities
+  const totalProb = Object.values(emotionProbabilities).reduce((sum, prob) => sum + prob, 0)
+  Object.keys(emotionProbabilities).forEach(emotion => {
+    emotionProbabilities[emotion as keyof typeof emotionProbabilities] /= totalProb
+  })
+
+  // Select emotion based on weighted random
+  let randomValue = random()
+  for (const [emotion, probability] of Object.entries(emotionProbabilities)) {
+    randomValue -= probability
+    if (randomValue <= 0) {
+      primaryEmotion = emotion as Emotion
+      break
+    }
+  }
+
+  // Generate realistic confidence (varies by emotion type)
+  const baseConfidence = {
+    happy: { min: 0.7, max: 0.95 },
+    sad: { min: 0.65, max: 0.88 },
+    angry: { min: 0.72, max: 0.92 },
+    surprised: { min: 0.68, max: 0.91 },
+    neutral: { min: 0.60, max: 0.85 },
+    fear: { min: 0.63, max: 0.87 },
+    disgust: { min: 0.66, max: 0.89 }
+  }
+
+  const emotionConfig = baseConfidence[primaryEmotion]
+  confidence = random() * (emotionConfig.max - emotionConfig.min) + emotionConfig.min
+
+  // A real model is less sure about soft or washed-out frames
+  if (image.blurry || (image.analyzed && image.contrast < 0.08)) {
+    confidence *= 0.85
+  }
+
+  // Generate realistic emotion distribution
+  const allEmotions = emptyScores()
+  const remainingConfidence = 1 - confidence
+  const otherEmotions = EMOTIONS.filter(e => e !== primaryEmotion)
+
+  // Distribute remaining confidence more realistically
+  let remainingToDistribute = remainingConfidence
+
+  otherEmotions.forEach((emotion, index) => {
+    if (index === otherEmotions.length - 1) {
+      // Last emotion gets whatever is left
+      allEmotions[emotion] = Math.max(0.01, remainingToDistribute)
+    } else {
+      // Generate realistic secondary emotions
+      let maxAllowed = remainingToDistribute * 0.6 // Max 60% of remaining
+      let minAllowed = 0.01
+
+      // Some emotions are more likely to co-exist
+      if (primaryEmotion === 'happy' && emotion === 'surprised') maxAllowed *= 1.5
+      if (primaryEmotion === 'sad' && emotion === 'fear') maxAllowed *= 1.3
+      if (primaryEmotion === 'angry' && emotion === 'disgust') maxAllowed *= 1.4
+
+      const emotionScore = random() * (maxAllowed - minAllowed) + minAllowed
+      allEmotions[emotion] = Math.min(emotionScore, remainingToDistribute - 0.01)
+      remainingToDistribute -= allEmotions[emotion]
+    }
+  })
+
+  allEmotions[primaryEmotion] = confidence
+
+  // Ensure all emotions sum to approximately 1.0
+  const total = Object.values(allEmotions).reduce((sum, val) => sum + val, 0)
+  EMOTIONS.forEach(emotion => {
+    allEmotions[emotion] /= total
+  })
+
+  return {
+    success: true,
+    emotion: primaryEmotion,
+    confidence: allEmotions[primaryEmotion],
+    all_emotions: allEmotions,
+    face_detected: true,
+    faces: [{ emotion: primaryEmotion, confidence: allEmotions[primaryEmotion], all_emotions: allEmotions }],
+    service_used: "simulation",
+    service_mode: "simulation",
+    analysis_details: {
+      time_context: `${timeOfDay}:00 ${dayOfWeek === 0 || dayOfWeek === 6 ? 'weekend' : 'weekday'}`,
+      image_analyzed: image.analyzed,
+      ...(image.analyzed && {
+        image_stats: {
+          brightness: Number(image.brightness.toFixed(3)),
+          contrast: Number(image.contrast.toFixed(3)),
+          sharpness: Number(image.sharpness.toFixed(1)),
+        },
+      }),
+      ...(options.seed !== undefined && { seed: String(options.seed), step }),
+      confidence_level: confidence > 0.8 ? 'high' : confidence > 0.6 ? 'medium' : 'low'
+    }
+  }
+}
+
+function parseTimeline(value: string): TimelineEntry[] | null {
+  const entries = value.split(",").map((item) => item.trim()).filter(Boolean)
+  if (entries.length === 0 || !entries.every((item) => EMOTIONS.includes(item as Emotion))) {
+    return null
+  }
+  return entries.map((emotion) => ({ emotion: emotion as Emotion }))
+}
+
+// Validate the `simulation` field of a detection request body
+export function parseSimulationOptions(raw: unknown): { options?: SimulationOptions; error?: string } {
+  if (raw === undefined || raw === null) return {}
+  if (typeof raw !== "object") return { error: "simulation must be an object" }
+
+  const { seed, step, now, timeline } = raw as { [key: string]: unknown }
+  const options: SimulationOptions = {}
+
+  if (seed !== undefined) {
+    if (typeof seed !== "string" && typeof seed !== "number") return { error: "simulation.seed must be a string or number" }
+    options.seed = seed
+  }
+  if (step !== undefined) {
+    if (typeof step !== "number" || !Number.isInteger(step) || step < 0) return { error: "simulation.step must be a non-negative integer" }
+    options.step = step
+  }
+  if (now !== undefined) {
+    if ((typeof now !== "string" && typeof now !== "number") || Number.isNaN(new Date(now).getTime())) {
+      return { error: "simulation.now must be epoch milliseconds or an ISO date" }
+    }
+    options.now = now
+  }
+  if (timeline !== undefined) {
+    const entries = Array.isArray(timeline)
+      ? timeline.map((entry) => (typeof entry === "string" ? { emotion: entry } : entry))
+      : []
+    const valid = entries.length > 0 && entries.every((entry) =>
+      entry && EMOTIONS.includes(entry.emotion) && (entry.confidence === undefined || (typeof entry.confidence === "number" && entry.confidence >= 0 && entry.confidence <= 1))
+    )
+    if (!valid) return { error: `simulation.timeline must be a non-empty list of emotions (${EMOTIONS.join(", ")})` }
+    options.timeline = entries as TimelineEntry[]
+  }
+
+  return { options }
+}
+
+// Server-wide defaults for QA environments: EMOTION_SIMULATION_SEED=demo, EMOTION_SIMULATION_TIMELINE=happy,sad,neutral
+function simulationDefaults(): SimulationOptions {
+  const defaults: SimulationOptions = {}
+  if (process.env.EMOTION_SIMULATION_SEED) {
+    defaults.seed = process.env.EMOTION_SIMULATION_SEED
+  }
+  if (process.env.EMOTION_SIMULATION_TIMELINE) {
+    const timeline = parseTimeline(process.env.EMOTION_SIMULATION_TIMELINE)
+    if (timeline) {
+      defaults.timeline = timeline
+    } else {
+      console.warn("⚠️ Ignoring invalid EMOTION_SIMULATION_TIMELINE")
+    }
+  }
+  return defaults
+}
+
+// The request's simulation options over the server-wide defaults
+export function effectiveSimulationOptions(simulation?: SimulationOptions): SimulationOptions {
+  return { ...simulationDefaults(), ...simulation }
+}
+
+// Always-available fallback so the demo works without any credentials
+export const simulationProvider: EmotionProvider<"simulation", "simulation"> = {
+  id: "simulation",
+  serviceMode: "simulation",
+  simulated: true,
+  defaultTimeoutMs: 1000,
+  features: ["emotion", "seedable", "offline"],
+
+  isConfigured() {
+    return true
+  },
+
+  async detect(image, { simulation }) {
+    return generateRealisticEmotion(image, effectiveSimulationOptions(simulation))
+  },
+}
@@ -0,0 +1,289 @@
+import type { BUILT_IN_PROVIDERS } from "./providers"
+
+export type Emotion = "happy" | "sad" | "angry" | "surprised" | "neutral" | "disgust" | "fear"
+
+export const EMOTIONS: Emotion[] = ["happy", "sad", "angry", "surprised", "neutral", "disgust", "fear"]
+
+export type EmotionScores = { [key in Emotion]: number }
+
+type BuiltInProvider = (typeof BUILT_IN_PROVIDERS)[number]
+
+// Identifiers used both in EMOTION_PROVIDERS config and as `service_used`, one per built-in provider
+export type ProviderId = BuiltInProvider["id"]
+
+// Local, non-camera analyzers that answer with the same response shape
+export type AnalyzerId = "text_lexicon" | "voice_prosody"
+
+// What the client sees as `service_mode`
+export type ServiceMode =
+  | BuiltInProvider["serviceMode"]
+  | "text_lexicon"
+  | "voice_prosody"
+  | "provider_error"
+  | "no_real_service"
+  | "error"
+
+export interface BoundingBox {
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+// Per-face capture signals reported by the provider, used by the quality gate
+export interface FaceQualitySignals {
+  // Head rotation in degrees; 0 is looking straight at the camera
+  yaw?: number
+  pitch?: number
+  roll?: number
+  // Provider says the face is too blurry for analysis
+  blurry?: boolean
+  // Likelihood (0..1) that mouth or eyes are covered by a mask, hand or dark glasses
+  occlusion?: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// Named facial points in image pixels, using Face++ landmark names (left/right from the subject's side).
+// Any provider can report them; only the points expression analysis reads are required.
+export interface FacialLandmarks {
+  [name: string]: Point
+}
+
+// Approximate facial action units measured from landmarks, each roughly -1..1 around a relaxed face
+export type ExpressionFeature = "mouth_curvature" | "brow_raise" | "eye_openness" | "mouth_opening"
+
+export interface FeatureContribution {
+  feature: ExpressionFeature
+  // The measured feature value
+  value: number
+  // How much it pushed the estimated emotion, after weighting
+  contribution: number
+}
+
+// Secondary, explainable emotion estimate computed locally from face geometry
+export interface ExpressionAnalysis {
+  emotion: Emotion
+  confidence: number
+  all_emotions: EmotionScores
+  features: { [key in ExpressionFeature]: number }
+  // Why the estimate landed on its emotion, largest effect first
+  contributions: FeatureContribution[]
+  // Whether the geometry backs up the provider's top emotion for this face
+  agrees_with_provider: boolean
+}
+
+export interface FaceResult {
+  // Pixel coordinates in the submitted frame, when the provider reports them
+  bounding_box?: BoundingBox
+  emotion: Emotion
+  confidence: number
+  all_emotions: EmotionScores
+  // 0..1; compare with quality_threshold, not with a fixed cut-off
+  face_quality?: number
+  // Provider's recommended minimum face_quality, 0..1
+  quality_threshold?: number
+  quality_signals?: FaceQualitySignals
+  landmarks?: FacialLandmarks
+  expression?: ExpressionAnalysis
+}
+
+export type QualityIssue = "too_dark" | "too_bright" | "too_blurry" | "face_too_small" | "extreme_pose" | "occluded" | "low_quality"
+
+export interface QualityAssessment {
+  // False when a blocking issue makes the emotion untrustworthy
+  passed: boolean
+  // Multiplier (0..1) applied to confidence and to the frame's weight in temporal smoothing
+  score: number
+  // Every problem found, blocking or not, most important first
+  issues: QualityIssue[]
+}
+
+// Whether the top emotion is a clear read. Mixed: the top two are nearly tied. Uncertain: the
+// top emotion is too weak to act on. The argmax is still reported as `emotion` either way.
+export type EmotionOutcome = "confident" | "mixed" | "uncertain"
+
+export interface OutcomeAssessment {
+  outcome: EmotionOutcome
+  // Emotions worth offering the user to confirm, most likely first
+  candidates: Emotion[]
+}
+
+// Distribution across every face in the frame, weighted by face size and quality
+export interface GroupMood {
+  emotion: Emotion
+  confidence: number
+  all_emotions: EmotionScores
+  valence: number
+  arousal: number
+  face_count: number
+  outcome: EmotionOutcome
+  candidates: Emotion[]
+}
+
+// Smoothed mood over a burst of frames
+export interface TemporalConsensus {
+  emotion: Emotion
+  confidence: number
+  all_emotions: EmotionScores
+  valence: number
+  arousal: number
+  // Share of frames (recency weighted) whose own top emotion matches the consensus, 0..1
+  stability: number
+  frame_count: number
+  outcome: EmotionOutcome
+  candidates: Emotion[]
+}
+
+// One sampled second of an uploaded video, as listed in the upload response's `timeline`
+export type VideoTimelinePoint = { timestamp_ms: number } & (
+  | {
+      success: true
+      emotion: Emotion
+      confidence: number
+      valence?: number
+      arousal?: number
+      face_detected: boolean
+    }
+  | { success: false; code: DetectionErrorCode; error: string }
+)
+
+export interface EnsembleVote {
+  provider: ProviderId
+  emotion: Emotion
+  confidence: number
+  weight: number
+}
+
+// How the providers queried in ensemble mode voted
+export interface EnsembleReport {
+  // Weighted share of voting providers whose top emotion matches the fused one, 0..1
+  agreement: number
+  agreed: ProviderId[]
+  disagreed: ProviderId[]
+  // Asked but failed, or skipped by an open circuit or failed health check
+  failed: ProviderId[]
+  votes: EnsembleVote[]
+}
+
+export interface EmotionDetectionResponse {
+  success: true
+  emotion: Emotion
+  confidence: number
+  all_emotions: EmotionScores
+  // Circumplex position, both -1..1. Derived from all_emotions unless the source measures it directly.
+  valence?: number
+  arousal?: number
+  // Set on every final result; providers leave it to detectWithProviders
+  outcome?: EmotionOutcome
+  candidates?: Emotion[]
+  face_detected: boolean
+  face_quality?: number
+  // Every detected face, largest first; the top-level fields describe faces[0]
+  faces: FaceResult[]
+  group_mood?: GroupMood
+  quality?: QualityAssessment
+  // Landmark-geometry read of faces[0], when the provider reported landmarks
+  expression?: ExpressionAnalysis
+  // Present when several providers were fused; service_used then names the one faces came from
+  ensemble?: EnsembleReport
+  // Scores were rescaled against the user's neutral-face baseline
+  calibrated?: boolean
+  service_used: ProviderId | AnalyzerId
+  service_mode: ServiceMode
+  analysis_details?: { [key: string]: unknown }
+}
+
+// Average scores of a user's relaxed face, captured once and replayed with each detection
+export interface NeutralBaseline {
+  all_emotions: EmotionScores
+  frame_count: number
+  // Baselines only apply to results from the provider that produced them
+  service_used: ProviderId
+  // Measured on fused ensemble scores, so it only applies to fused results (and vice versa)
+  ensemble?: boolean
+  captured_at: string
+}
+
+// Machine-readable reason attached to every emotion-detection error response
+export type DetectionErrorCode =
+  | "invalid_request"
+  | "invalid_image"
+  | "unsupported_format"
+  | "image_too_small"
+  | "image_too_large"
+  | "no_face"
+  | "poor_quality"
+  | "no_speech"
+  | "auth_invalid"
+  | "quota_exhausted"
+  | "rate_limited"
+  | "provider_timeout"
+  | "provider_unreachable"
+  | "provider_error"
+  | "no_provider"
+  | "service_unavailable"
+  | "internal_error"
+
+export interface EmotionDetectionFailure {
+  success: false
+  error: string
+  code: DetectionErrorCode
+  service_used: ProviderId
+}
+
+export type ProviderResult = EmotionDetectionResponse | EmotionDetectionFailure
+
+// Body of every error response under /api/emotion-detection; some add context such as the failed frames
+export interface DetectionErrorBody {
+  success: false
+  error: string
+  code: DetectionErrorCode
+  retryable: boolean
+  service_mode: ServiceMode
+  // Set with poor_quality
+  quality_issues?: QualityIssue[]
+}
+
+export interface SimulationOptions {
+  // Same seed + step + image always yields the same emotion
+  seed?: string | number
+  // Detection counter mixed into the seed, so consecutive seeded calls differ but replay identically
+  step?: number
+  // Clock used for the time-of-day/weekday tendencies, epoch ms or ISO string
+  now?: number | string
+  // Scripted emotions played back by step, bypassing the random draw entirely
+  timeline?: TimelineEntry[]
+}
+
+export interface TimelineEntry {
+  emotion: Emotion
+  confidence?: number
+}
+
+// Capabilities advertised by the health endpoint
+export type ProviderFeature = "emotion" | "multi_face" | "bounding_boxes" | "face_quality" | "landmarks" | "seedable" | "offline"
+
+export interface ProviderContext {
+  timeoutMs: number
+  simulation?: SimulationOptions
+}
+
+// Provider modules pin their own id and mode, e.g. EmotionProvider<"deepface", "deepface_ai">
+export interface EmotionProvider<Id extends string = ProviderId, Mode extends string = ServiceMode> {
+  id: Id
+  serviceMode: Mode
+  // Simulated providers are skipped when the caller asks for real detection
+  simulated: boolean
+  defaultTimeoutMs: number
+  features: ProviderFeature[]
+  isConfigured(): boolean
+  // Optional cheap probe run before detect(), e.g. a sidecar health check
+  isAvailable?(): Promise<boolean>
+  // Reachability check for the health endpoint; must never spend paid quota. Defaults to isAvailable.
+  ping?(): Promise<boolean>
+  detect(image: string, context: ProviderContext): Promise<ProviderResult>
+}
@@ -0,0 +1,193 @@
+import {
+  type DetectionErrorCode,
+  detectionErrorBody,
+  detectWithProviders,
+  type DetectionOptions,
+  type EmotionDetectionResponse,
+  type QualityIssue,
+  type ServiceMode,
+  temporalConsensus,
+} from "@/lib/emotion-providers"
+import { normalizeImage } from "@/lib/image-normalizer"
+
+export type FrameFailure = {
+  success: false
+  error: string
+  code: DetectionErrorCode
+  service_mode: ServiceMode
+  quality_issues?: QualityIssue[]
+}
+export type FrameResult = EmotionDetectionResponse | FrameFailure
+
+export interface FrameSequence {
+  results: FrameResult[]
+  // True if at least one non-simulated provider was eligible for any frame
+  realProviderConfigured: boolean
+  // The deadline passed before every frame was read; results cover the frames before it, in order
+  timedOut?: boolean
+}
+
+// Resolves to null if the promise hasn't settled in time. The work itself isn't cancelled, only no longer waited for.
+function withinDeadline<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const expired = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms)
+  })
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Frames run one after another: providers rate-limit per second and order matters for smoothing.
+ * With a `deadline` (epoch ms), the frame in flight when it passes is abandoned and later frames
+ * aren't started, so a slow provider can't hold the request open for every frame's timeout.
+ */
+export async function detectFrames(
+  frames: string[],
+  options: DetectionOptions = {},
+  { deadline }: { deadline?: number } = {},
+): Promise<FrameSequence> {
+  const results: FrameResult[] = []
+  let realProviderConfigured = false
+
+  for (const [index, frame] of frames.entries()) {
+    if (deadline !== undefined && Date.now() >= deadline) {
+      return { results, realProviderConfigured, timedOut: true }
+    }
+
+    const { result: normalized, error: imageError, code: imageErrorCode } = normalizeImage(frame)
+    if (!normalized) {
+      results.push({ success: false, error: imageError || "Invalid image", code: imageErrorCode || "invalid_image", service_mode: "error" })
+      continue
+    }
+
+    const detection = detectWithProviders(normalized.image, {
+      ...options,
+      // Each frame advances the simulated timeline by one step
+      simulation: { ...options.simulation, step: (options.simulation?.step ?? 0) + index },
+    })
+    const outcome = deadline === undefined ? await detection : await withinDeadline(detection, deadline - Date.now())
+    if (!outcome) {
+      return { results, realProviderConfigured, timedOut: true }
+    }
+    realProviderConfigured = realProviderConfigured || outcome.realProviderConfigured
+
+    if (outcome.result?.quality && !outcome.result.quality.passed) {
+      results.push({
+        success: false,
+        error: "Face found but the photo quality is too low to read an emotion",
+        code: "poor_quality",
+        service_mode: outcome.result.service_mode,
+        quality_issues: outcome.result.quality.issues,
+      })
+    } else if (outcome.result) {
+      results.push(outcome.result)
+    } else {
+      const lastFailure = outcome.failures[outcome.failures.length - 1]
+      results.push({
+        success: false,
+        error: lastFailure?.error || "No emotion detection service available",
+        code: lastFailure?.code || "service_unavailable",
+        service_mode: lastFailure ? "provider_error" : "no_real_service",
+      })
+    }
+  }
+
+  return { results, realProviderConfigured }
+}
+
+/**
+ * Smooth a sequence into one response, or pick the most useful error when no frame could be
+ * read. Successful responses have the single-frame shape plus `consensus` and, unless
+ * includeFrames is false, every frame's full result as `frames`.
+ */
+export function frameSequenceResponse(
+  { results, realProviderConfigured }: FrameSequence,
+  { forceRealDetection, includeFrames = true }: { forceRealDetection?: boolean; includeFrames?: boolean } = {},
+): { body: { [key: string]: unknown }; status: number } {
+  const detected = results.filter((result): result is EmotionDetectionResponse => result.success)
+  const consensus = temporalConsensus(detected)
+
+  if (!consensus) {
+    if (forceRealDetection && !realProviderConfigured) {
+      return {
+        body: detectionErrorBody(
+          "no_provider",
+          "Real emotion detection requested but no detection provider is configured. Please set FACEPLUS_API_KEY and FACEPLUS_API_SECRET environment variables or run the DeepFace service."
+        ),
+        status: 400,
+      }
+    }
+
+    // A face was seen but every usable frame was too poor: the capture hints are the useful answer
+    const poorFrame = [...results].reverse().find((result): result is FrameFailure => !result.success && result.code === "poor_quality")
+    if (poorFrame) {
+      return {
+        body: detectionErrorBody(
+          "poor_quality",
+          poorFrame.error,
+          poorFrame.service_mode,
+          { quality_issues: poorFrame.quality_issues, frames: results }
+        ),
+        status: 422,
+      }
+    }
+
+    // Same precedence as the single-frame route: bad input, then provider errors, then no service
+    const lastFailure = results[results.length - 1] as FrameFailure | undefined
+    const serviceMode = results.every((result) => result.service_mode === "error")
+      ? "error"
+      : forceRealDetection && results.some((result) => result.service_mode === "provider_error")
+        ? "provider_error"
+        : "no_real_service"
+
+    return {
+      body: detectionErrorBody(
+        lastFailure?.code || "service_unavailable",
+        lastFailure?.error || "No emotion detection service available",
+        serviceMode,
+        { frames: results }
+      ),
+      status: serviceMode === "no_real_service" ? 503 : 400,
+    }
+  }
+
+  // Faces and service info come from the newest frame so overlays match what's on screen
+  const latest = detected[detected.length - 1]
+
+  if (!detected.some((result) => result.face_detected) && latest.service_mode !== "simulation") {
+    return {
+      body: detectionErrorBody(
+        "no_face",
+        "No face detected in any frame - face the camera in good light",
+        latest.service_mode,
+        { service_used: latest.service_used, frames: results }
+      ),
+      status: 422,
+    }
+  }
+
+  return {
+    body: {
+      success: true,
+      emotion: consensus.emotion,
+      confidence: consensus.confidence,
+      all_emotions: consensus.all_emotions,
+      valence: consensus.valence,
+      arousal: consensus.arousal,
+      outcome: consensus.outcome,
+      candidates: consensus.candidates,
+      face_detected: detected.some((result) => result.face_detected),
+      faces: latest.faces,
+      group_mood: latest.group_mood,
+      quality: latest.quality,
+      expression: latest.expression,
+      calibrated: latest.calibrated,
+      ensemble: latest.ensemble,
+      service_used: latest.service_used,
+      service_mode: latest.service_mode,
+      consensus,
+      ...(includeFrames && { frames: results }),
+    },
+    status: 200,
+  }
+}
@@ -0,0 +1,275 @@
+import jpeg from "jpeg-js"
+import { PNG } from "pngjs"
+
+export type ImageFormat = "jpeg" | "png" | "bmp" | "gif" | "webp"
+
+export interface ImageInfo {
+  format: ImageFormat
+  width: number
+  height: number
+  byteLength: number
+}
+
+export interface DecodedImage {
+  width: number
+  height: number
+  // RGBA, 4 bytes per pixel, row-major
+  data: Uint8Array
+}
+
+export interface PixelStats {
+  // Mean luma, 0 (black) .. 1 (white)
+  brightness: number
+  // Standard deviation of luma, 0 .. 0.5
+  contrast: number
+  // Variance of the Laplacian of luma at ANALYSIS_WIDTH; low values mean a blurry frame
+  sharpness: number
+  blurry: boolean
+}
+
+export interface ImageLimits {
+  formats: ImageFormat[]
+  minDimension: number
+  maxDimension: number
+  maxBytes: number
+}
+
+// Stats are computed on a copy scaled to this width so sharpness is comparable across resolutions
+const ANALYSIS_WIDTH = 320
+// Below this Laplacian variance a face is too soft for expression analysis
+const BLUR_THRESHOLD = 60
+// Refuse to decode anything larger than this many megapixels
+const MAX_DECODE_MEGAPIXELS = 24
+
+export function decodeBase64Image(imageData: string): Buffer {
+  // Remove data URL prefix if present
+  const base64Data = imageData.includes(",") ? imageData.split(",")[1] : imageData
+  return Buffer.from(base64Data, "base64")
+}
+
+// JPEG stores dimensions in its start-of-frame segment, which may follow EXIF/ICC segments
+function readJpegDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2
+      continue
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+    if (isStartOfFrame) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+      }
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+// Identify the format from magic bytes and read pixel dimensions from the header without decoding
+export function readImageInfo(bytes: Uint8Array): ImageInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const byteLength = bytes.length
+
+  if (byteLength >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    const dimensions = readJpegDimensions(bytes)
+    return dimensions ? { format: "jpeg", ...dimensions, byteLength } : null
+  }
+
+  if (byteLength >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { format: "png", width: view.getUint32(16), height: view.getUint32(20), byteLength }
+  }
+
+  if (byteLength >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d) {
+    return { format: "bmp", width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)), byteLength }
+  }
+
+  if (byteLength >= 10 && bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return { format: "gif", width: view.getUint16(6, true), height: view.getUint16(8, true), byteLength }
+  }
+
+  if (byteLength >= 12 && String.fromCharCode(...Array.from(bytes.subarray(8, 12))) === "WEBP") {
+    // WebP dimensions depend on the sub-format; format alone is enough to reject it
+    return { format: "webp", width: 0, height: 0, byteLength }
+  }
+
+  return null
+}
+
+const formatNames: { [key in ImageFormat]: string } = {
+  jpeg: "JPEG",
+  png: "PNG",
+  bmp: "BMP",
+  gif: "GIF",
+  webp: "WebP",
+}
+
+// Check a header against a provider's limits and explain exactly which rule failed
+export interface ImageValidation {
+  info?: ImageInfo
+  isValid: boolean
+  error?: string
+  code?: "invalid_image" | "unsupported_format" | "image_too_small" | "image_too_large"
+}
+
+export function validateImage(bytes: Uint8Array, limits: ImageLimits): ImageValidation {
+  const info = readImageInfo(bytes)
+  const accepted = limits.formats.map((format) => formatNames[format]).join(", ")
+
+  if (!info) {
+    return { isValid: false, code: "invalid_image", error: `Unrecognized image data - expected ${accepted}` }
+  }
+  if (!limits.formats.includes(info.format)) {
+    return { info, isValid: false, code: "unsupported_format", error: `${formatNames[info.format]} images are not supported - use ${accepted}` }
+  }
+  if (info.width < limits.minDimension || info.height < limits.minDimension) {
+    return {
+      info,
+      isValid: false,
+      code: "image_too_small",
+      error: `Image is ${info.width}x${info.height} pixels - at least ${limits.minDimension}x${limits.minDimension} is required`,
+    }
+  }
+  if (info.width > limits.maxDimension || info.height > limits.maxDimension) {
+    return {
+      info,
+      isValid: false,
+      code: "image_too_large",
+      error: `Image is ${info.width}x${info.height} pixels - at most ${limits.maxDimension}x${limits.maxDimension} is allowed`,
+    }
+  }
+  if (info.byteLength > limits.maxBytes) {
+    const sizeMb = (info.byteLength / (1024 * 1024)).toFixed(1)
+    const maxMb = (limits.maxBytes / (1024 * 1024)).toFixed(0)
+    return { info, isValid: false, code: "image_too_large", error: `Image is ${sizeMb}MB - maximum is ${maxMb}MB` }
+  }
+
+  return { info, isValid: true }
+}
+
+// Decode JPEG or PNG to RGBA. Returns null for formats we can only sniff (BMP, GIF, WebP).
+export function decodeImage(bytes: Uint8Array): DecodedImage | null {
+  const info = readImageInfo(bytes)
+  if (!info || info.width * info.height > MAX_DECODE_MEGAPIXELS * 1_000_000) return null
+
+  try {
+    if (info.format === "jpeg") {
+      const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_DECODE_MEGAPIXELS })
+      return { width: decoded.width, height: decoded.height, data: decoded.data }
+    }
+    if (info.format === "png") {
+      const decoded = PNG.sync.read(Buffer.from(bytes))
+      return { width: decoded.width, height: decoded.height, data: new Uint8Array(decoded.data) }
+    }
+  } catch (error) {
+    console.error("Image decode error:", error)
+  }
+  return null
+}
+
+// Area-average resample; intended for downscaling (upscaling just repeats pixels)
+export function resizeImage(image: DecodedImage, width: number, height: number): DecodedImage {
+  if (width === image.width && height === image.height) return image
+
+  const scaleX = image.width / width
+  const scaleY = image.height / height
+  const data = new Uint8Array(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    const sourceTop = Math.floor(y * scaleY)
+    const sourceBottom = Math.min(image.height, Math.max(sourceTop + 1, Math.floor((y + 1) * scaleY)))
+    for (let x = 0; x < width; x++) {
+      const sourceLeft = Math.floor(x * scaleX)
+      const sourceRight = Math.min(image.width, Math.max(sourceLeft + 1, Math.floor((x + 1) * scaleX)))
+      const sums = [0, 0, 0, 0]
+      let count = 0
+      for (let sy = sourceTop; sy < sourceBottom; sy++) {
+        for (let sx = sourceLeft; sx < sourceRight; sx++) {
+          const index = (sy * image.width + sx) * 4
+          for (let channel = 0; channel < 4; channel++) sums[channel] += image.data[index + channel]
+          count++
+        }
+      }
+      const target = (y * width + x) * 4
+      for (let channel = 0; channel < 4; channel++) data[target + channel] = Math.round(sums[channel] / count)
+    }
+  }
+
+  return { width, height, data }
+}
+
+// Copy out a rectangle, clamped to the image bounds
+export function cropImage(image: DecodedImage, box: { top: number; left: number; width: number; height: number }): DecodedImage {
+  const left = Math.max(0, Math.min(image.width - 1, Math.round(box.left)))
+  const top = Math.max(0, Math.min(image.height - 1, Math.round(box.top)))
+  const width = Math.max(1, Math.min(image.width - left, Math.round(box.width)))
+  const height = Math.max(1, Math.min(image.height - top, Math.round(box.height)))
+  const data = new Uint8Array(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    const sourceStart = ((top + y) * image.width + left) * 4
+    data.set(image.data.subarray(sourceStart, sourceStart + width * 4), y * width * 4)
+  }
+
+  return { width, height, data }
+}
+
+// Downscale to ANALYSIS_WIDTH (never upscale) and convert to Rec. 601 luma, 0..255
+function toAnalysisLuma(image: DecodedImage): { luma: Float32Array; width: number; height: number } {
+  const scale = Math.min(1, ANALYSIS_WIDTH / image.width)
+  const { width, height, data } = resizeImage(
+    image,
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale)),
+  )
+  const luma = new Float32Array(width * height)
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+
+  return { luma, width, height }
+}
+
+export function computePixelStats(image: DecodedImage): PixelStats {
+  const { luma, width, height } = toAnalysisLuma(image)
+
+  let sum = 0
+  for (let i = 0; i < luma.length; i++) sum += luma[i]
+  const mean = sum / luma.length
+
+  let variance = 0
+  for (let i = 0; i < luma.length; i++) variance += (luma[i] - mean) ** 2
+  variance /= luma.length
+
+  // 4-neighbour Laplacian over the interior
+  let laplacianSum = 0
+  let laplacianSquares = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const laplacian = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i]
+      laplacianSum += laplacian
+      laplacianSquares += laplacian * laplacian
+      count++
+    }
+  }
+  const sharpness = count > 0 ? laplacianSquares / count - (laplacianSum / count) ** 2 : 0
+
+  return {
+    brightness: mean / 255,
+    contrast: Math.sqrt(variance) / 255,
+    sharpness,
+    blurry: sharpness < BLUR_THRESHOLD,
+  }
+}
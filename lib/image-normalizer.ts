@@ -0,0 +1,153 @@
+import jpeg from "jpeg-js"
+import { type DecodedImage, decodeBase64Image, decodeImage, type ImageFormat, readImageInfo, resizeImage } from "@/lib/image-decoder"
+
+// Largest side sent to providers. Face++ accepts up to 4096px, but faces are found just as
+// well at this size and the upload stays small.
+const MAX_DIMENSION = 1920
+// Strictest provider file size cap (Face++)
+const MAX_BYTES = 2 * 1024 * 1024
+const QUALITY_STEPS = [90, 80, 70, 60, 50]
+// Shrink by this factor when even the lowest quality is over MAX_BYTES
+const DOWNSCALE_STEP = 0.75
+
+export interface NormalizedImage {
+  // JPEG data URL with no EXIF/ICC/comment segments
+  image: string
+  width: number
+  height: number
+  byteLength: number
+  quality: number
+  original: { format: ImageFormat; width: number; height: number; byteLength: number }
+  // EXIF orientation tag that was applied (1 = none)
+  orientation: number
+}
+
+// Walk JPEG segments to the APP1 "Exif" block and read tag 0x0112 from IFD0
+export function readExifOrientation(bytes: Uint8Array): number {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return 1
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 2
+  while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    // Start of scan: metadata segments all come before the image data
+    if (marker === 0xda) return 1
+    const length = view.getUint16(offset + 2)
+
+    const isExif = marker === 0xe1 && String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8))) === "Exif"
+    if (isExif) {
+      const tiff = offset + 10
+      if (tiff + 8 > bytes.length) return 1
+      const littleEndian = view.getUint16(tiff) === 0x4949
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian)
+      if (ifd + 2 > bytes.length) return 1
+      const entries = view.getUint16(ifd, littleEndian)
+
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12
+        if (entry + 12 > bytes.length) return 1
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian)
+          return orientation >= 1 && orientation <= 8 ? orientation : 1
+        }
+      }
+      return 1
+    }
+    offset += 2 + length
+  }
+  return 1
+}
+
+// Rotate/flip so the pixels are upright, per the EXIF orientation values 1-8
+export function applyOrientation(image: DecodedImage, orientation: number): DecodedImage {
+  if (orientation <= 1 || orientation > 8) return image
+
+  const { width: w, height: h } = image
+  const swapsAxes = orientation >= 5
+  const width = swapsAxes ? h : w
+  const height = swapsAxes ? w : h
+  const data = new Uint8Array(width * height * 4)
+
+  // Source pixel for each destination pixel
+  const sourceOf: { [key: number]: (x: number, y: number) => [number, number] } = {
+    2: (x, y) => [w - 1 - x, y], // mirror horizontal
+    3: (x, y) => [w - 1 - x, h - 1 - y], // rotate 180
+    4: (x, y) => [x, h - 1 - y], // mirror vertical
+    5: (x, y) => [y, x], // transpose
+    6: (x, y) => [y, h - 1 - x], // rotate 90 clockwise
+    7: (x, y) => [w - 1 - y, h - 1 - x], // transverse
+    8: (x, y) => [w - 1 - y, x], // rotate 90 counter-clockwise
+  }
+  const mapping = sourceOf[orientation]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [sourceX, sourceY] = mapping(x, y)
+      const source = (sourceY * w + sourceX) * 4
+      const target = (y * width + x) * 4
+      data[target] = image.data[source]
+      data[target + 1] = image.data[source + 1]
+      data[target + 2] = image.data[source + 2]
+      data[target + 3] = image.data[source + 3]
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * Make any JPEG/PNG safe to hand to a third-party provider: upright per EXIF, no larger than
+ * MAX_DIMENSION, re-encoded as a baseline JPEG under MAX_BYTES. Re-encoding drops every
+ * metadata segment (EXIF, GPS, ICC, comments). Small images are never upscaled.
+ */
+export function normalizeImage(imageData: string): {
+  result?: NormalizedImage
+  error?: string
+  code?: "invalid_image" | "unsupported_format" | "image_too_large"
+} {
+  const bytes = decodeBase64Image(imageData)
+  const info = readImageInfo(bytes)
+  if (!info) {
+    return { code: "invalid_image", error: "Unrecognized image data - send a JPEG or PNG" }
+  }
+
+  const decoded = decodeImage(bytes)
+  if (!decoded) {
+    const code = info.format === "jpeg" || info.format === "png" ? "invalid_image" : "unsupported_format"
+    return { code, error: `Could not decode ${info.format.toUpperCase()} image - send a JPEG or PNG` }
+  }
+
+  const orientation = info.format === "jpeg" ? readExifOrientation(bytes) : 1
+  const upright = applyOrientation(decoded, orientation)
+
+  let scale = Math.min(1, MAX_DIMENSION / Math.max(upright.width, upright.height))
+  for (;;) {
+    const resized = resizeImage(
+      upright,
+      Math.max(1, Math.round(upright.width * scale)),
+      Math.max(1, Math.round(upright.height * scale)),
+    )
+
+    for (const quality of QUALITY_STEPS) {
+      const encoded = jpeg.encode({ width: resized.width, height: resized.height, data: resized.data }, quality).data
+      if (encoded.length <= MAX_BYTES) {
+        return {
+          result: {
+            image: `data:image/jpeg;base64,${Buffer.from(encoded).toString("base64")}`,
+            width: resized.width,
+            height: resized.height,
+            byteLength: encoded.length,
+            quality,
+            original: { format: info.format, width: info.width, height: info.height, byteLength: info.byteLength },
+            orientation,
+          },
+        }
+      }
+    }
+
+    if (resized.width <= 1 && resized.height <= 1) {
+      return { code: "image_too_large", error: "Image could not be compressed under the 2MB limit" }
+    }
+    scale *= DOWNSCALE_STEP
+  }
+}
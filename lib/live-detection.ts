@@ -0,0 +1,149 @@
+import {
+  type DetectionErrorCode,
+  detectWithProviders,
+  type DetectionOptions,
+  type Emotion,
+  type EmotionDetectionResponse,
+  type QualityIssue,
+  type TemporalConsensus,
+  temporalConsensus,
+} from "@/lib/emotion-providers"
+
+// Frames kept for smoothing; at the default 1 fps this is the last five seconds
+const LIVE_WINDOW_FRAMES = 5
+// A smoothed mood must be at least this steady before it replaces the current one
+const MIN_MOOD_STABILITY = 0.6
+// Sessions with no subscriber and no frames for this long are dropped
+const SESSION_IDLE_MS = 60_000
+
+export type LiveEvent =
+  | {
+      type: "frame"
+      frame_index: number
+      result: EmotionDetectionResponse
+      consensus: TemporalConsensus
+      // The stable mood after this frame, and whether this frame changed it
+      mood: Emotion
+      mood_changed: boolean
+    }
+  | { type: "frame_error"; frame_index: number; error: string; code: DetectionErrorCode; quality_issues?: QualityIssue[] }
+
+type LiveListener = (event: LiveEvent) => void
+
+interface LiveSession {
+  window: EmotionDetectionResponse[]
+  listeners: Set<LiveListener>
+  frameIndex: number
+  busy: boolean
+  mood: Emotion | null
+  lastActive: number
+}
+
+/**
+ * In-memory fan-out between the frame upload endpoint and the SSE stream. State lives in this
+ * server process, so live mode needs sticky sessions when running more than one instance.
+ */
+class LiveDetectionHub {
+  private sessions = new Map<string, LiveSession>()
+
+  private getSession(sessionId: string): LiveSession {
+    this.pruneIdleSessions()
+
+    let session = this.sessions.get(sessionId)
+    if (!session) {
+      session = { window: [], listeners: new Set(), frameIndex: 0, busy: false, mood: null, lastActive: Date.now() }
+      this.sessions.set(sessionId, session)
+    }
+    session.lastActive = Date.now()
+    return session
+  }
+
+  private pruneIdleSessions() {
+    const cutoff = Date.now() - SESSION_IDLE_MS
+    for (const [sessionId, session] of this.sessions) {
+      if (session.listeners.size === 0 && !session.busy && session.lastActive < cutoff) {
+        this.sessions.delete(sessionId)
+      }
+    }
+  }
+
+  private emit(session: LiveSession, event: LiveEvent) {
+    session.listeners.forEach((listener) => listener(event))
+  }
+
+  subscribe(sessionId: string, listener: LiveListener): () => void {
+    const session = this.getSession(sessionId)
+    session.listeners.add(listener)
+    return () => {
+      session.listeners.delete(listener)
+      session.lastActive = Date.now()
+    }
+  }
+
+  /**
+   * Analyse one frame and push the result to the session's subscribers. Returns false without
+   * doing any work when the previous frame is still being analysed, so a slow provider sheds
+   * frames instead of queueing them up.
+   */
+  async submitFrame(sessionId: string, image: string, options: DetectionOptions = {}): Promise<boolean> {
+    const session = this.getSession(sessionId)
+    if (session.busy) return false
+
+    session.busy = true
+    const frameIndex = session.frameIndex++
+
+    try {
+      const { result, failures } = await detectWithProviders(image, {
+        ...options,
+        // A client-sent step is where the script starts, as in batch mode
+        simulation: { ...options.simulation, step: (options.simulation?.step ?? 0) + frameIndex },
+      })
+
+      if (!result) {
+        const lastFailure = failures[failures.length - 1]
+        this.emit(session, {
+          type: "frame_error",
+          frame_index: frameIndex,
+          error: lastFailure?.error || "No emotion detection service available",
+          code: lastFailure?.code || "service_unavailable",
+        })
+        return true
+      }
+
+      // Unusable frames never enter the window, so they can't drag the mood around
+      if (result.quality && !result.quality.passed) {
+        this.emit(session, {
+          type: "frame_error",
+          frame_index: frameIndex,
+          error: "Face found but the photo quality is too low to read an emotion",
+          code: "poor_quality",
+          quality_issues: result.quality.issues,
+        })
+        return true
+      }
+
+      session.window = [...session.window, result].slice(-LIVE_WINDOW_FRAMES)
+      const consensus = temporalConsensus(session.window) as TemporalConsensus
+
+      const moodChanged = consensus.emotion !== session.mood && (consensus.stability >= MIN_MOOD_STABILITY || session.mood === null)
+      if (moodChanged) {
+        session.mood = consensus.emotion
+      }
+
+      this.emit(session, {
+        type: "frame",
+        frame_index: frameIndex,
+        result,
+        consensus,
+        mood: session.mood ?? consensus.emotion,
+        mood_changed: moodChanged,
+      })
+      return true
+    } finally {
+      session.busy = false
+      session.lastActive = Date.now()
+    }
+  }
+}
+
+export const liveDetectionHub = new LiveDetectionHub()
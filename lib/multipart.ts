@@ -0,0 +1,170 @@
+// Streaming multipart/form-data reader: file bodies are handed on chunk by chunk as the request
+// arrives, so an upload never has to sit in memory (or in a base64 string) in full.
+
+export interface MultipartFile {
+  // Form field name
+  name: string
+  filename: string
+  contentType: string
+}
+
+export interface FileSink {
+  // Awaited before the next chunk is read, which gives the request stream backpressure
+  write(chunk: Uint8Array): void | Promise<void>
+  end(): void | Promise<void>
+  // Called instead of end() when the read fails part-way through this file
+  abort?(): void
+}
+
+// Part headers and plain text fields are small; anything bigger is a malformed or hostile body
+const MAX_HEADER_BYTES = 8 * 1024
+const MAX_FIELD_BYTES = 64 * 1024
+
+const HEADER_END = Buffer.from("\r\n\r\n")
+
+function readBoundary(contentType: string): string {
+  const match = /^multipart\/form-data\s*;.*boundary=(?:"([^"]+)"|([^\s;]+))/i.exec(contentType)
+  if (!match) {
+    throw new Error("Expected a multipart/form-data body with a boundary")
+  }
+  return match[1] || match[2]
+}
+
+function parsePartHeaders(block: string): { name: string; filename?: string; contentType: string } {
+  const headers: { [key: string]: string } = {}
+  for (const line of block.split("\r\n")) {
+    const separator = line.indexOf(":")
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim()
+    }
+  }
+
+  const disposition = headers["content-disposition"] || ""
+  const name = /\bname="([^"]*)"/i.exec(disposition)?.[1]
+  if (!/^form-data\b/i.test(disposition) || name === undefined) {
+    throw new Error("Multipart part is missing its form-data name")
+  }
+
+  return {
+    name,
+    filename: /\bfilename="([^"]*)"/i.exec(disposition)?.[1],
+    contentType: headers["content-type"] || "application/octet-stream",
+  }
+}
+
+/**
+ * Read a multipart body, calling onFile for each file part and streaming its bytes into the
+ * returned sink. Text fields are collected and returned once the closing boundary arrives.
+ * Throwing from onFile or a sink aborts the read, aborts the open sink and cancels the request stream.
+ */
+export async function readMultipart(
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  onFile: (file: MultipartFile) => FileSink | Promise<FileSink>,
+): Promise<{ [name: string]: string }> {
+  // A leading CRLF lets the first boundary match the same delimiter as every later one
+  const delimiter = Buffer.from(`\r\n--${readBoundary(contentType)}`)
+  const fields: { [name: string]: string } = {}
+  const reader = body.getReader()
+
+  // advance() moves these on; the casts stop TypeScript narrowing them to their initial values
+  let buffer: Buffer = Buffer.from("\r\n")
+  let state = "preamble" as "preamble" | "boundary" | "headers" | "body" | "done"
+  let field: { name: string; chunks: Buffer[]; size: number } | null = null
+  let sink = null as FileSink | null
+
+  const emit = async (chunk: Buffer) => {
+    if (chunk.length === 0) return
+    if (sink) {
+      await sink.write(chunk)
+    } else if (field) {
+      field.size += chunk.length
+      if (field.size > MAX_FIELD_BYTES) {
+        throw new Error(`Form field "${field.name}" is too large`)
+      }
+      field.chunks.push(chunk)
+    }
+  }
+
+  // Consume as much of the buffer as the current state allows
+  const advance = async () => {
+    for (;;) {
+      if (state === "preamble" || state === "body") {
+        const index = buffer.indexOf(delimiter)
+        if (index === -1) {
+          // Keep enough bytes to recognise a delimiter split across two chunks
+          const safe = Math.max(0, buffer.length - delimiter.length + 1)
+          if (state === "body") await emit(buffer.subarray(0, safe))
+          buffer = buffer.subarray(safe)
+          return
+        }
+
+        if (state === "body") {
+          await emit(buffer.subarray(0, index))
+          if (sink) {
+            await sink.end()
+            sink = null
+          } else if (field) {
+            fields[field.name] = Buffer.concat(field.chunks).toString("utf8")
+            field = null
+          }
+        }
+        buffer = buffer.subarray(index + delimiter.length)
+        state = "boundary"
+      } else if (state === "boundary") {
+        if (buffer.length < 2) return
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          // "--" closes the body; anything after it is epilogue
+          state = "done"
+          return
+        }
+        const lineEnd = buffer.indexOf("\r\n")
+        if (lineEnd === -1) return
+        // Transport padding may follow a boundary before its line break
+        if (buffer.subarray(0, lineEnd).toString("latin1").trim() !== "") {
+          throw new Error("Malformed multipart boundary")
+        }
+        buffer = buffer.subarray(lineEnd + 2)
+        state = "headers"
+      } else if (state === "headers") {
+        const index = buffer.indexOf(HEADER_END)
+        if (index === -1) {
+          if (buffer.length > MAX_HEADER_BYTES) throw new Error("Multipart part headers are too large")
+          return
+        }
+
+        const part = parsePartHeaders(buffer.subarray(0, index).toString("utf8"))
+        buffer = buffer.subarray(index + HEADER_END.length)
+        if (part.filename !== undefined) {
+          sink = await onFile({ name: part.name, filename: part.filename, contentType: part.contentType })
+        } else {
+          field = { name: part.name, chunks: [], size: 0 }
+        }
+        state = "body"
+      } else {
+        return
+      }
+    }
+  }
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer = Buffer.concat([buffer, value])
+      await advance()
+      if (state === "done") break
+    }
+    if (state !== "done") {
+      throw new Error("Upload ended before the multipart body was complete")
+    }
+  } catch (error) {
+    sink?.abort?.()
+    await reader.cancel().catch(() => undefined)
+    throw error
+  }
+
+  // Nothing useful follows the closing boundary; don't wait for it
+  await reader.cancel().catch(() => undefined)
+  return fields
+}
@@ -0,0 +1,81 @@
+import { EMOTIONS, type Emotion, type EmotionScores } from "@/lib/emotion-providers/types"
+
+// Emotions with less of the distribution than this don't get picks of their own
+export const MIN_BLEND_SHARE = 0.15
+// Beyond this many emotions each one gets too few picks to be noticeable
+export const MAX_BLEND_EMOTIONS = 3
+
+export interface BlendComponent {
+  emotion: Emotion
+  // Share of the picks, 0..1; the components' shares sum to 1
+  share: number
+}
+
+// Emotion names to non-negative scores, not necessarily normalised or complete
+export function isEmotionDistribution(value: unknown): value is Partial<EmotionScores> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false
+  const entries = Object.entries(value as { [key: string]: unknown })
+  return entries.length > 0
+    && entries.every(([emotion, score]) => EMOTIONS.includes(emotion as Emotion) && typeof score === "number" && Number.isFinite(score) && score >= 0)
+    && entries.some(([, score]) => (score as number) > 0)
+}
+
+/**
+ * Which emotions to draw picks from, and how many. Minor emotions are dropped and the rest
+ * renormalised, so 60% happy / 30% surprised / 10% neutral becomes two thirds / one third.
+ * The top emotion is always kept, even in a flat distribution where nothing clears the bar.
+ */
+export function blendComponents(scores: Partial<EmotionScores>): BlendComponent[] {
+  const total = EMOTIONS.reduce((sum, emotion) => sum + (scores[emotion] || 0), 0)
+  if (total <= 0) return [{ emotion: "neutral", share: 1 }]
+
+  const ranked = EMOTIONS
+    .map((emotion) => ({ emotion, share: (scores[emotion] || 0) / total }))
+    .sort((a, b) => b.share - a.share)
+  const kept = ranked
+    .filter(({ share }, index) => index === 0 || share >= MIN_BLEND_SHARE)
+    .slice(0, MAX_BLEND_EMOTIONS)
+
+  const keptTotal = kept.reduce((sum, { share }) => sum + share, 0)
+  return kept.map(({ emotion, share }) => ({ emotion, share: Number((share / keptTotal).toFixed(3)) }))
+}
+
+/**
+ * Mix per-emotion lists into one, as long as the longest of them. Each position goes to the
+ * emotion furthest behind its share so far, which spreads minor emotions through the list
+ * instead of tacking them on the end. An emotion that runs out hands its slots to the others,
+ * and an item already picked for another emotion (same title) is skipped.
+ */
+export function blendLists<T extends { title: string }>(
+  lists: (BlendComponent & { items: T[] })[],
+): (T & { emotion: Emotion })[] {
+  const size = Math.max(0, ...lists.map(({ items }) => items.length))
+  const taken = lists.map(() => 0)
+  const cursors = lists.map(() => 0)
+  const seen = new Set<string>()
+  const blended: (T & { emotion: Emotion })[] = []
+
+  while (blended.length < size) {
+    let next = -1
+    for (const [index, { share, items }] of lists.entries()) {
+      // Skip past duplicates so a list's availability reflects what it can still add
+      while (cursors[index] < items.length && seen.has(items[cursors[index]].title.toLowerCase())) {
+        cursors[index]++
+      }
+      if (cursors[index] >= items.length) continue
+
+      const deficit = share * (blended.length + 1) - taken[index]
+      if (next === -1 || deficit > lists[next].share * (blended.length + 1) - taken[next]) {
+        next = index
+      }
+    }
+    if (next === -1) break
+
+    const item = lists[next].items[cursors[next]++]
+    seen.add(item.title.toLowerCase())
+    taken[next]++
+    blended.push({ ...item, emotion: lists[next].emotion })
+  }
+
+  return blended
+}
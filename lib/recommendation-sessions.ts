@@ -0,0 +1,124 @@
+import { randomUUID } from "node:crypto"
+import type { CircumplexPoint } from "@/lib/circumplex"
+import type { PageState, PendingResults, QueryPositions } from "@/lib/content-recommender"
+import type { Emotion } from "@/lib/emotion-providers/types"
+import type { BlendComponent } from "@/lib/recommendation-blend"
+
+export const CONTENT_CATEGORIES = ["movies", "songs", "books"] as const
+export type ContentCategory = (typeof CONTENT_CATEGORIES)[number]
+
+// Sessions untouched for this long are dropped, along with everything they've been shown
+const SESSION_IDLE_MS = 30 * 60_000
+// Every load opens a cursor per category; older ones are dropped past this many
+const MAX_CURSORS_PER_SESSION = 30
+
+// What a "more like this" cursor continues: one category of one recommendation mix
+export interface RecommendationCursor {
+  category: ContentCategory
+  blend: BlendComponent[]
+  // Where the music was steered on the circumplex, if anywhere
+  point?: CircumplexPoint
+}
+
+interface RecommendationSession {
+  // Provider ids already shown, per category, for the recommender to skip
+  seen: { [key in ContentCategory]: Set<string> }
+  // Lowercased titles already shown, per category. The route's canned lists reuse ids across
+  // emotions, so titles are what tells their items apart.
+  titles: { [key in ContentCategory]: Set<string> }
+  // How deep each emotion's queries have gone and what they fetched but haven't shown yet,
+  // keyed "emotion:category"
+  pages: Map<string, { positions: QueryPositions; pending: PendingResults }>
+  cursors: Map<string, RecommendationCursor>
+  lastActive: number
+}
+
+/**
+ * What each browser session has been shown and how far into the providers' results it has got,
+ * so neither a reload nor "more like this" repeats a title. State lives in this server process,
+ * so like live detection it needs sticky sessions when running more than one instance.
+ */
+class RecommendationSessionStore {
+  private sessions = new Map<string, RecommendationSession>()
+
+  private getSession(sessionId: string): RecommendationSession {
+    this.pruneIdleSessions()
+
+    let session = this.sessions.get(sessionId)
+    if (!session) {
+      session = {
+        seen: { movies: new Set(), songs: new Set(), books: new Set() },
+        titles: { movies: new Set(), songs: new Set(), books: new Set() },
+        pages: new Map(),
+        cursors: new Map(),
+        lastActive: Date.now(),
+      }
+      this.sessions.set(sessionId, session)
+    }
+    session.lastActive = Date.now()
+    return session
+  }
+
+  private pruneIdleSessions() {
+    const cutoff = Date.now() - SESSION_IDLE_MS
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActive < cutoff) {
+        this.sessions.delete(sessionId)
+      }
+    }
+  }
+
+  // Paging state for one emotion in one category, shared by every load and "more" in the session
+  pageState(sessionId: string, emotion: Emotion, category: ContentCategory): PageState {
+    const session = this.getSession(sessionId)
+    const key = `${emotion}:${category}`
+
+    let page = session.pages.get(key)
+    if (!page) {
+      page = { positions: {}, pending: {} }
+      session.pages.set(key, page)
+    }
+    return { ...page, exclude: session.seen[category] }
+  }
+
+  markSeen(sessionId: string, category: ContentCategory, items: { id: string; title: string }[]) {
+    const { seen, titles } = this.getSession(sessionId)
+    for (const { id, title } of items) {
+      seen[category].add(id)
+      titles[category].add(title.toLowerCase())
+    }
+  }
+
+  // The items whose titles this session hasn't been shown yet, fallback content included. A
+  // repeated title counts its id as seen too, so the recommender stops holding that item pending.
+  unseen<T extends { id: string; title: string }>(sessionId: string, category: ContentCategory, items: T[]): T[] {
+    const { seen, titles } = this.getSession(sessionId)
+    return items.filter(({ id, title }) => {
+      if (!titles[category].has(title.toLowerCase())) return true
+      seen[category].add(id)
+      return false
+    })
+  }
+
+  openCursor(sessionId: string, cursor: RecommendationCursor): string {
+    const { cursors } = this.getSession(sessionId)
+    const cursorId = randomUUID()
+    cursors.set(cursorId, cursor)
+
+    for (const oldest of cursors.keys()) {
+      if (cursors.size <= MAX_CURSORS_PER_SESSION) break
+      cursors.delete(oldest)
+    }
+    return cursorId
+  }
+
+  getCursor(sessionId: string, cursorId: string): RecommendationCursor | undefined {
+    return this.getSession(sessionId).cursors.get(cursorId)
+  }
+
+  closeCursor(sessionId: string, cursorId: string) {
+    this.getSession(sessionId).cursors.delete(cursorId)
+  }
+}
+
+export const recommendationSessions = new RecommendationSessionStore()
@@ -0,0 +1,46 @@
+import { type CircumplexPoint, emotionsFromCoordinates } from "@/lib/circumplex"
+import { EMOTIONS, type EmotionScores } from "@/lib/emotion-providers/types"
+
+export const RECOMMENDATION_STRATEGIES = ["match", "uplift", "calm", "energize"] as const
+export type RecommendationStrategy = (typeof RECOMMENDATION_STRATEGIES)[number]
+
+// Where each strategy tries to take the listener on the circumplex; "match" stays where they are
+const STRATEGY_GOALS: { [key in Exclude<RecommendationStrategy, "match">]: CircumplexPoint } = {
+  // Pleasant and lively without being hyper
+  uplift: { valence: 0.8, arousal: 0.4 },
+  // Pleasant and slow
+  calm: { valence: 0.4, arousal: -0.4 },
+  // Positive and high energy
+  energize: { valence: 0.5, arousal: 0.8 },
+}
+
+// Share of a shifted mix still drawn from the current mood. Meeting people where they are before
+// leading them somewhere else (the "iso principle" from music therapy) lands better than a jump.
+const CURRENT_MOOD_SHARE = 0.2
+
+export function isRecommendationStrategy(value: unknown): value is RecommendationStrategy {
+  return RECOMMENDATION_STRATEGIES.includes(value as RecommendationStrategy)
+}
+
+export function strategyGoal(strategy: RecommendationStrategy): CircumplexPoint | undefined {
+  return strategy === "match" ? undefined : STRATEGY_GOALS[strategy]
+}
+
+/**
+ * The emotion distribution to recommend for. The mapping file describes content in each
+ * emotion's own tone, so matching uses the current mood as-is and the other strategies mix it
+ * with the goal state's distribution.
+ */
+export function strategyDistribution(strategy: RecommendationStrategy, current: Partial<EmotionScores>): Partial<EmotionScores> {
+  const goal = strategyGoal(strategy)
+  if (!goal) return current
+
+  const total = EMOTIONS.reduce((sum, emotion) => sum + (current[emotion] || 0), 0)
+  const target = emotionsFromCoordinates(goal.valence, goal.arousal)
+  const mixed = {} as EmotionScores
+  for (const emotion of EMOTIONS) {
+    const share = total > 0 ? (current[emotion] || 0) / total : 0
+    mixed[emotion] = CURRENT_MOOD_SHARE * share + (1 - CURRENT_MOOD_SHARE) * target[emotion]
+  }
+  return mixed
+}
@@ -121,16 +121,21 @@ export class SpotifyClient {
     }
   }
 
-  async getRecommendations(seedGenres: string[], limit = 10): Promise<SpotifyTrack[]> {
+  async getRecommendations(
+    seedGenres: string[],
+    limit = 10,
+    targets?: { valence: number; energy: number },
+  ): Promise<SpotifyTrack[]> {
     try {
       const token = await this.getAccessToken()
 
       // Limit to 5 seed genres (Spotify API limitation)
       const genres = seedGenres.slice(0, 5).join(",")
+      const targetParams = targets ? `&target_valence=${targets.valence}&target_energy=${targets.energy}` : ""
 
 
       const response = await fetch(
-        `https://api.spotify.com/v1/recommendations?seed_genres=${genres}&limit=${limit}&market=US`,
+        `https://api.spotify.com/v1/recommendations?seed_genres=${genres}&limit=${limit}&market=US${targetParams}`,
         {
           headers: {
             Authorization: `Bearer ${token}`,
@@ -143,7 +148,7 @@ export class SpotifyClient {
         if (response.status === 401) {
           // Token expired, clear it and retry once
           this.accessToken = null
-          return this.getRecommendations(seedGenres, limit)
+          return this.getRecommendations(seedGenres, limit, targets)
         }
         throw new Error(`Spotify recommendations failed: ${response.status}`)
       }
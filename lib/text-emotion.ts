@@ -0,0 +1,235 @@
+import { coordinatesFromEmotions } from "@/lib/circumplex"
+import { classifyOutcome, dominantEmotion, emptyScores } from "@/lib/emotion-providers/scores"
+import { EMOTIONS, type Emotion, type EmotionDetectionResponse } from "@/lib/emotion-providers/types"
+
+export const MAX_TEXT_LENGTH = 1000
+
+// Word (or word stem, for entries of 5+ letters) -> emotion and weight
+const lexicon: { [word: string]: { emotion: Emotion; weight: number } } = {
+  // happy
+  happy: { emotion: "happy", weight: 1 },
+  glad: { emotion: "happy", weight: 0.8 },
+  great: { emotion: "happy", weight: 0.7 },
+  good: { emotion: "happy", weight: 0.5 },
+  awesome: { emotion: "happy", weight: 0.9 },
+  amazing: { emotion: "happy", weight: 0.9 },
+  excited: { emotion: "happy", weight: 0.9 },
+  joy: { emotion: "happy", weight: 1 },
+  joyful: { emotion: "happy", weight: 1 },
+  cheerful: { emotion: "happy", weight: 0.9 },
+  delighted: { emotion: "happy", weight: 1 },
+  grateful: { emotion: "happy", weight: 0.7 },
+  thankful: { emotion: "happy", weight: 0.7 },
+  relaxed: { emotion: "happy", weight: 0.5 },
+  proud: { emotion: "happy", weight: 0.7 },
+  love: { emotion: "happy", weight: 0.8 },
+  fun: { emotion: "happy", weight: 0.6 },
+  celebrat: { emotion: "happy", weight: 0.9 },
+  // sad
+  sad: { emotion: "sad", weight: 1 },
+  unhappy: { emotion: "sad", weight: 1 },
+  down: { emotion: "sad", weight: 0.6 },
+  depressed: { emotion: "sad", weight: 1 },
+  lonely: { emotion: "sad", weight: 0.9 },
+  alone: { emotion: "sad", weight: 0.5 },
+  miserable: { emotion: "sad", weight: 1 },
+  heartbroken: { emotion: "sad", weight: 1 },
+  hurt: { emotion: "sad", weight: 0.7 },
+  cry: { emotion: "sad", weight: 0.9 },
+  crying: { emotion: "sad", weight: 0.9 },
+  tired: { emotion: "sad", weight: 0.4 },
+  exhausted: { emotion: "sad", weight: 0.6 },
+  miss: { emotion: "sad", weight: 0.6 },
+  grief: { emotion: "sad", weight: 1 },
+  disappoint: { emotion: "sad", weight: 0.8 },
+  gloomy: { emotion: "sad", weight: 0.8 },
+  // angry
+  angry: { emotion: "angry", weight: 1 },
+  mad: { emotion: "angry", weight: 0.9 },
+  furious: { emotion: "angry", weight: 1 },
+  annoyed: { emotion: "angry", weight: 0.7 },
+  irritat: { emotion: "angry", weight: 0.7 },
+  frustrat: { emotion: "angry", weight: 0.8 },
+  hate: { emotion: "angry", weight: 0.9 },
+  pissed: { emotion: "angry", weight: 0.9 },
+  rage: { emotion: "angry", weight: 1 },
+  fed: { emotion: "angry", weight: 0.3 },
+  // surprised
+  surprised: { emotion: "surprised", weight: 1 },
+  shocked: { emotion: "surprised", weight: 0.9 },
+  amazed: { emotion: "surprised", weight: 0.8 },
+  astonish: { emotion: "surprised", weight: 0.9 },
+  unexpected: { emotion: "surprised", weight: 0.7 },
+  wow: { emotion: "surprised", weight: 0.8 },
+  stunned: { emotion: "surprised", weight: 0.8 },
+  // fear
+  scared: { emotion: "fear", weight: 1 },
+  afraid: { emotion: "fear", weight: 1 },
+  anxious: { emotion: "fear", weight: 0.9 },
+  anxiety: { emotion: "fear", weight: 0.9 },
+  nervous: { emotion: "fear", weight: 0.8 },
+  worried: { emotion: "fear", weight: 0.8 },
+  worry: { emotion: "fear", weight: 0.8 },
+  stress: { emotion: "fear", weight: 0.8 },
+  panic: { emotion: "fear", weight: 1 },
+  terrified: { emotion: "fear", weight: 1 },
+  overwhelm: { emotion: "fear", weight: 0.8 },
+  deadline: { emotion: "fear", weight: 0.4 },
+  dread: { emotion: "fear", weight: 0.9 },
+  // disgust
+  disgust: { emotion: "disgust", weight: 1 },
+  gross: { emotion: "disgust", weight: 0.9 },
+  sick: { emotion: "disgust", weight: 0.5 },
+  revolting: { emotion: "disgust", weight: 1 },
+  nasty: { emotion: "disgust", weight: 0.8 },
+  awful: { emotion: "disgust", weight: 0.6 },
+  yuck: { emotion: "disgust", weight: 0.9 },
+  // neutral
+  okay: { emotion: "neutral", weight: 0.6 },
+  ok: { emotion: "neutral", weight: 0.6 },
+  fine: { emotion: "neutral", weight: 0.6 },
+  calm: { emotion: "neutral", weight: 0.7 },
+  meh: { emotion: "neutral", weight: 0.8 },
+  bored: { emotion: "neutral", weight: 0.6 },
+}
+
+const emoticons: { [token: string]: Emotion } = {
+  ":)": "happy",
+  ":-)": "happy",
+  ":d": "happy",
+  "😊": "happy",
+  "😀": "happy",
+  "😂": "happy",
+  ":(": "sad",
+  ":-(": "sad",
+  "😢": "sad",
+  "😭": "sad",
+  "😠": "angry",
+  "😡": "angry",
+  "😮": "surprised",
+  "😱": "fear",
+  "😰": "fear",
+  "🤢": "disgust",
+  "😐": "neutral",
+}
+
+const negations = new Set(["not", "no", "never", "dont", "don't", "isnt", "isn't", "wasnt", "wasn't", "cant", "can't", "aint", "hardly"])
+const intensifiers: { [word: string]: number } = { very: 1.5, so: 1.4, really: 1.4, extremely: 1.8, super: 1.5, totally: 1.4, incredibly: 1.7 }
+const diminishers: { [word: string]: number } = { slightly: 0.5, somewhat: 0.6, little: 0.6, bit: 0.6, kinda: 0.7, kind: 0.7 }
+
+// What a negated emotion turns into ("not happy" reads as sad, "not angry" as neutral)
+const negatedEmotion: { [key in Emotion]: Emotion } = {
+  happy: "sad",
+  sad: "neutral",
+  angry: "neutral",
+  surprised: "neutral",
+  neutral: "neutral",
+  disgust: "neutral",
+  fear: "neutral",
+}
+
+// How many tokens back a negation or intensifier can reach
+const MODIFIER_WINDOW = 3
+
+function lookup(token: string): { emotion: Emotion; weight: number } | undefined {
+  if (lexicon[token]) return lexicon[token]
+
+  for (const [stem, entry] of Object.entries(lexicon)) {
+    if (stem.length >= 5 && token.startsWith(stem)) return entry
+  }
+  return undefined
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/([.,;:!?]+)(\s|$)/g, " $1 ")
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/**
+ * Rule-based, offline classifier for free-text mood descriptions.
+ * Scores lexicon hits, applies negation/intensifier rules within a short window,
+ * and keeps a small neutral prior so short or ambiguous text stays near neutral.
+ */
+export function classifyText(text: string): EmotionDetectionResponse {
+  const tokens = tokenize(text)
+  const raw = emptyScores()
+  const matchedTerms: string[] = []
+
+  // Weak prior leaning neutral: one strong word should still win, but no evidence reads as an unsure neutral
+  EMOTIONS.forEach((emotion) => {
+    raw[emotion] = 0.1
+  })
+  raw.neutral += 0.4
+
+  tokens.forEach((token, index) => {
+    const emoticon = emoticons[token]
+    if (emoticon) {
+      raw[emoticon] += 1
+      matchedTerms.push(token)
+      return
+    }
+
+    const entry = lookup(token.replace(/[^a-z']/g, ""))
+    if (!entry) return
+
+    let weight = entry.weight
+    let emotion = entry.emotion
+    // Modifiers don't reach across clause punctuation ("not tired, just sad")
+    let window = tokens.slice(Math.max(0, index - MODIFIER_WINDOW), index)
+    for (let i = window.length - 1; i >= 0; i--) {
+      if (/^[.,;:!?]+$/.test(window[i])) {
+        window = window.slice(i + 1)
+        break
+      }
+    }
+
+    if (window.some((word) => negations.has(word))) {
+      // "not happy" is real evidence of sadness; "not scared" is only weak evidence of calm
+      weight *= emotion === "happy" ? 0.6 : 0.3
+      emotion = negatedEmotion[emotion]
+    }
+    for (const word of window) {
+      weight *= intensifiers[word] ?? diminishers[word] ?? 1
+    }
+
+    raw[emotion] += weight
+    matchedTerms.push(token)
+  })
+
+  // Exclamation marks amplify whatever non-neutral feeling is present
+  const exclamations = (text.match(/!/g) || []).length
+  if (exclamations > 0) {
+    const boost = 1 + Math.min(exclamations, 3) * 0.15
+    EMOTIONS.forEach((emotion) => {
+      if (emotion !== "neutral") raw[emotion] *= boost
+    })
+  }
+
+  const total = EMOTIONS.reduce((sum, emotion) => sum + raw[emotion], 0)
+  const allEmotions = emptyScores()
+  EMOTIONS.forEach((emotion) => {
+    allEmotions[emotion] = raw[emotion] / total
+  })
+  const dominant = dominantEmotion(allEmotions)
+
+  return {
+    success: true,
+    emotion: dominant.emotion,
+    confidence: dominant.confidence,
+    all_emotions: allEmotions,
+    ...coordinatesFromEmotions(allEmotions),
+    // No evidence at all reads as an uncertain neutral
+    ...classifyOutcome(allEmotions, dominant.confidence),
+    face_detected: false,
+    faces: [],
+    service_used: "text_lexicon",
+    service_mode: "text_lexicon",
+    analysis_details: {
+      matched_terms: matchedTerms,
+      token_count: tokens.length,
+    },
+  }
+}
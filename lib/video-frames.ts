@@ -0,0 +1,123 @@
+import { spawn } from "node:child_process"
+
+// Frames are sampled at this fixed rate, so a timeline entry is one second of video
+export const VIDEO_SAMPLE_FPS = 1
+// Longer clips are cut off here; at 1 fps this is also the number of provider calls per upload
+export const MAX_VIDEO_SECONDS = 30
+// Sampled frames are scaled down to this width before normalisation; plenty for a face
+const FRAME_MAX_WIDTH = 960
+// ffmpeg gets this long to decode a clip before it is stopped
+const DECODE_TIMEOUT_MS = 60_000
+
+export interface SampledFrame {
+  // Position in the clip, from the sample rate
+  timestamp_ms: number
+  // JPEG data URL, ready for normalizeImage
+  image: string
+}
+
+/**
+ * Split ffmpeg's MJPEG stream into whole JPEGs. The header segments are walked by their lengths
+ * up to start-of-scan; after that an FF D9 pair can only be the end-of-image marker, since FF
+ * bytes inside entropy-coded data are always stuffed.
+ */
+function takeJpeg(buffer: Buffer): { jpeg: Buffer; rest: Buffer } | null {
+  if (buffer.length < 4) return null
+  if (buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    throw new Error("Unexpected data in ffmpeg frame stream")
+  }
+
+  let offset = 2
+  for (;;) {
+    if (offset + 4 > buffer.length) return null
+    const marker = buffer[offset + 1]
+    const length = buffer.readUInt16BE(offset + 2)
+    offset += 2 + length
+    if (marker === 0xda) break
+  }
+
+  const end = buffer.indexOf(Buffer.from([0xff, 0xd9]), offset)
+  if (end === -1) return null
+  return { jpeg: buffer.subarray(0, end + 2), rest: buffer.subarray(end + 2) }
+}
+
+/**
+ * Decode a video file with ffmpeg and return JPEG frames sampled at VIDEO_SAMPLE_FPS, at most
+ * MAX_VIDEO_SECONDS worth. ffmpeg is found on PATH or at FFMPEG_PATH. Reading from a file rather
+ * than a pipe lets ffmpeg seek, which MP4s with their index at the end need.
+ */
+export function sampleVideoFrames(path: string): Promise<{
+  frames?: SampledFrame[]
+  error?: string
+  code?: "unsupported_format" | "service_unavailable"
+}> {
+  const maxFrames = VIDEO_SAMPLE_FPS * MAX_VIDEO_SECONDS
+
+  return new Promise((resolve) => {
+    const ffmpeg = spawn(process.env.FFMPEG_PATH || "ffmpeg", [
+      "-hide_banner",
+      "-loglevel", "error",
+      "-i", path,
+      "-an",
+      "-vf", `fps=${VIDEO_SAMPLE_FPS},scale='min(${FRAME_MAX_WIDTH},iw)':-2`,
+      "-frames:v", String(maxFrames),
+      "-f", "image2pipe",
+      "-vcodec", "mjpeg",
+      "-q:v", "3",
+      "pipe:1",
+    ], { stdio: ["ignore", "pipe", "pipe"] })
+
+    const frames: SampledFrame[] = []
+    let pending: Buffer = Buffer.alloc(0)
+    let stderr = ""
+    let failure: string | null = null
+
+    const timer = setTimeout(() => {
+      failure = "Video took too long to decode - try a shorter clip"
+      ffmpeg.kill("SIGKILL")
+    }, DECODE_TIMEOUT_MS)
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => {
+      if (failure) return
+      pending = Buffer.concat([pending, chunk])
+      try {
+        for (let next = takeJpeg(pending); next; next = takeJpeg(pending)) {
+          frames.push({
+            timestamp_ms: Math.round((frames.length * 1000) / VIDEO_SAMPLE_FPS),
+            image: `data:image/jpeg;base64,${next.jpeg.toString("base64")}`,
+          })
+          pending = next.rest
+        }
+      } catch (error) {
+        failure = error instanceof Error ? error.message : "Could not read video frames"
+        ffmpeg.kill("SIGKILL")
+      }
+    })
+    ffmpeg.stderr.on("data", (chunk: Buffer) => {
+      // Only the tail is useful in an error message
+      stderr = (stderr + chunk.toString("utf8")).slice(-500)
+    })
+
+    // Spawn failures (ffmpeg missing) arrive here; a close event may follow, but the first resolve wins
+    ffmpeg.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer)
+      resolve({
+        code: "service_unavailable",
+        error: error.code === "ENOENT" ? "Video upload needs ffmpeg on the server - install it or set FFMPEG_PATH" : error.message,
+      })
+    })
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer)
+      if (failure) {
+        resolve({ code: "unsupported_format", error: failure })
+      } else if (code !== 0) {
+        const reason = stderr.trim().split("\n").pop()
+        resolve({ code: "unsupported_format", error: `Could not decode video${reason ? `: ${reason}` : ""}` })
+      } else if (frames.length === 0) {
+        resolve({ code: "unsupported_format", error: "The video has no frames to analyse" })
+      } else {
+        resolve({ frames })
+      }
+    })
+  })
+}
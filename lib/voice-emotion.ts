@@ -0,0 +1,195 @@
+import { emotionsFromCoordinates, roundCoordinate } from "@/lib/circumplex"
+import { classifyOutcome, dominantEmotion } from "@/lib/emotion-providers/scores"
+import type { EmotionDetectionResponse } from "@/lib/emotion-providers/types"
+import type { PcmAudio } from "@/lib/wav"
+
+export const MIN_CLIP_SECONDS = 1
+export const MAX_CLIP_SECONDS = 15
+
+const FRAME_SECONDS = 0.03
+const HOP_SECONDS = 0.01
+const MIN_PITCH_HZ = 80
+const MAX_PITCH_HZ = 400
+// Silence between speech must last this long to count as a pause
+const MIN_PAUSE_SECONDS = 0.25
+// Syllable nuclei closer than this are treated as one
+const MIN_SYLLABLE_GAP_SECONDS = 0.1
+
+export interface ProsodyFeatures {
+  duration_s: number
+  voiced_ratio: number
+  // Mean loudness of speech frames, dBFS
+  energy_db: number
+  // Median fundamental frequency of speech frames
+  pitch_hz: number
+  // Pitch standard deviation relative to its mean (speaker-independent)
+  pitch_variation: number
+  // Energy peaks per second of speaking time, a proxy for syllables per second
+  speaking_rate: number
+  pause_count: number
+  // Share of the speech span (first to last voiced frame) spent in pauses
+  pause_ratio: number
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+}
+
+// Normalized autocorrelation pitch estimate; 0 when the frame isn't clearly periodic
+function estimatePitch(frame: Float32Array, sampleRate: number): number {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ)
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), frame.length - 1)
+  let bestLag = 0
+  let bestCorrelation = 0
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let cross = 0
+    let energyA = 0
+    let energyB = 0
+    for (let i = 0; i + lag < frame.length; i++) {
+      cross += frame[i] * frame[i + lag]
+      energyA += frame[i] * frame[i]
+      energyB += frame[i + lag] * frame[i + lag]
+    }
+    const correlation = cross / (Math.sqrt(energyA * energyB) || 1)
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation
+      bestLag = lag
+    }
+  }
+
+  return bestCorrelation > 0.5 && bestLag > 0 ? sampleRate / bestLag : 0
+}
+
+export function extractProsody({ samples, sampleRate }: PcmAudio): ProsodyFeatures {
+  // At least one sample each, or framing would never advance
+  const frameLength = Math.max(1, Math.round(FRAME_SECONDS * sampleRate))
+  const hop = Math.max(1, Math.round(HOP_SECONDS * sampleRate))
+  const rms: number[] = []
+
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    let sum = 0
+    for (let i = start; i < start + frameLength; i++) sum += samples[i] * samples[i]
+    rms.push(Math.sqrt(sum / frameLength))
+  }
+
+  // Speech threshold adapts to the room's noise floor
+  const threshold = Math.max(0.015, percentile(rms, 0.1) * 2.5)
+  const voiced = rms.map((value) => value > threshold)
+  const voicedIndexes = voiced.flatMap((isVoiced, index) => (isVoiced ? [index] : []))
+  const duration = samples.length / sampleRate
+
+  if (voicedIndexes.length === 0) {
+    return { duration_s: duration, voiced_ratio: 0, energy_db: -Infinity, pitch_hz: 0, pitch_variation: 0, speaking_rate: 0, pause_count: 0, pause_ratio: 1 }
+  }
+
+  const meanVoicedRms = voicedIndexes.reduce((sum, index) => sum + rms[index], 0) / voicedIndexes.length
+
+  const pitches = voicedIndexes
+    .map((index) => estimatePitch(samples.subarray(index * hop, index * hop + frameLength), sampleRate))
+    .filter((pitch) => pitch > 0)
+  const pitchMean = pitches.reduce((sum, pitch) => sum + pitch, 0) / (pitches.length || 1)
+  const pitchStd = Math.sqrt(pitches.reduce((sum, pitch) => sum + (pitch - pitchMean) ** 2, 0) / (pitches.length || 1))
+
+  // Syllable nuclei: local maxima of the smoothed energy envelope inside speech, spaced apart
+  const envelope = rms.map((_, index) => {
+    const window = rms.slice(Math.max(0, index - 2), index + 3)
+    return window.reduce((sum, value) => sum + value, 0) / window.length
+  })
+  const minGapFrames = Math.round(MIN_SYLLABLE_GAP_SECONDS / HOP_SECONDS)
+  let syllables = 0
+  let lastPeak = -Infinity
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const isPeak = envelope[i] > envelope[i - 1] && envelope[i] >= envelope[i + 1]
+    if (voiced[i] && isPeak && envelope[i] > threshold * 1.5 && i - lastPeak >= minGapFrames) {
+      syllables++
+      lastPeak = i
+    }
+  }
+
+  // Pauses: silent runs between the first and last speech frame
+  const minPauseFrames = Math.round(MIN_PAUSE_SECONDS / HOP_SECONDS)
+  const first = voicedIndexes[0]
+  const last = voicedIndexes[voicedIndexes.length - 1]
+  let pauseCount = 0
+  let pauseFrames = 0
+  let run = 0
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i]) {
+      run++
+      continue
+    }
+    if (run >= minPauseFrames) {
+      pauseCount++
+      pauseFrames += run
+    }
+    run = 0
+  }
+
+  // Articulation rate: syllables over the speech span minus real pauses
+  const speakingSeconds = (last - first + 1 - pauseFrames) * HOP_SECONDS
+
+  return {
+    duration_s: duration,
+    voiced_ratio: voicedIndexes.length / rms.length,
+    energy_db: 20 * Math.log10(meanVoicedRms),
+    pitch_hz: percentile(pitches, 0.5),
+    pitch_variation: pitchMean > 0 ? pitchStd / pitchMean : 0,
+    speaking_rate: syllables / speakingSeconds,
+    pause_count: pauseCount,
+    pause_ratio: pauseFrames / (last - first + 1),
+  }
+}
+
+/**
+ * Heuristic prosody -> circumplex mapping. Loud, fast, lively speech reads as high arousal;
+ * melodic speech with few long pauses reads as positive, flat speech with long pauses as negative.
+ * Both axes are returned in -1..1.
+ */
+export function prosodyToCoordinates(features: ProsodyFeatures): { valence: number; arousal: number } {
+  const energy = clamp01((features.energy_db + 40) / 30) // -40 dBFS quiet .. -10 dBFS loud
+  const rate = clamp01((features.speaking_rate - 2) / 4) // 2 .. 6 syllables per second
+  const liveliness = clamp01((features.pitch_variation - 0.05) / 0.25)
+  const hesitancy = clamp01(features.pause_ratio / 0.5)
+
+  const arousal = 0.45 * energy + 0.3 * rate + 0.25 * liveliness
+  // Very loud speech pulls valence down: shouting is rarely joyful
+  const valence = 0.55 * liveliness + 0.35 * (1 - hesitancy) + 0.1 * (1 - Math.max(0, energy - 0.7) / 0.3)
+
+  return { valence: valence * 2 - 1, arousal: arousal * 2 - 1 }
+}
+
+export function classifyVoice(audio: PcmAudio): EmotionDetectionResponse | null {
+  const features = extractProsody(audio)
+  if (features.voiced_ratio < 0.1) {
+    return null
+  }
+
+  const { valence, arousal } = prosodyToCoordinates(features)
+  const allEmotions = emotionsFromCoordinates(valence, arousal)
+  const dominant = dominantEmotion(allEmotions)
+
+  return {
+    success: true,
+    emotion: dominant.emotion,
+    confidence: dominant.confidence,
+    all_emotions: allEmotions,
+    // Measured directly from prosody rather than derived from the labels
+    valence: roundCoordinate(valence),
+    arousal: roundCoordinate(arousal),
+    ...classifyOutcome(allEmotions, dominant.confidence),
+    face_detected: false,
+    faces: [],
+    service_used: "voice_prosody",
+    service_mode: "voice_prosody",
+    analysis_details: {
+      prosody: features,
+      valence,
+      arousal,
+    },
+  }
+}
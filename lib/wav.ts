@@ -0,0 +1,95 @@
+// Minimal 16-bit PCM WAV encode/decode. Runs in both the browser and on the server.
+
+// Telephone quality up to studio rate; anything outside is a broken or hostile header
+export const MIN_SAMPLE_RATE = 8000
+export const MAX_SAMPLE_RATE = 48000
+
+export interface PcmAudio {
+  samples: Float32Array // mono, -1..1
+  sampleRate: number
+}
+
+export function encodeWav({ samples, sampleRate }: PcmAudio): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2)
+  const view = new DataView(buffer)
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, "RIFF")
+  view.setUint32(4, 36 + samples.length * 2, true)
+  writeString(8, "WAVE")
+  writeString(12, "fmt ")
+  view.setUint32(16, 16, true) // fmt chunk size
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, 1, true) // mono
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true) // byte rate
+  view.setUint16(32, 2, true) // block align
+  view.setUint16(34, 16, true) // bits per sample
+  writeString(36, "data")
+  view.setUint32(40, samples.length * 2, true)
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]))
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true)
+  }
+
+  return buffer
+}
+
+// Accepts PCM 16-bit WAV of any channel count and downmixes to mono
+export function decodeWav(data: Uint8Array): PcmAudio {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...Array.from(data.subarray(offset, offset + length)))
+
+  if (data.length < 44 || readString(0, 4) !== "RIFF" || readString(8, 4) !== "WAVE") {
+    throw new Error("Not a WAV file")
+  }
+
+  let offset = 12
+  let channels = 0
+  let sampleRate = 0
+  let bitsPerSample = 0
+  let format = 0
+
+  while (offset + 8 <= data.length) {
+    const chunkId = readString(offset, 4)
+    const chunkSize = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (chunkId === "fmt ") {
+      format = view.getUint16(body, true)
+      channels = view.getUint16(body + 2, true)
+      sampleRate = view.getUint32(body + 4, true)
+      bitsPerSample = view.getUint16(body + 14, true)
+    } else if (chunkId === "data") {
+      if (format !== 1 || bitsPerSample !== 16 || channels === 0) {
+        throw new Error("Only 16-bit PCM WAV audio is supported")
+      }
+      if (sampleRate < MIN_SAMPLE_RATE || sampleRate > MAX_SAMPLE_RATE) {
+        throw new Error(`Sample rate must be between ${MIN_SAMPLE_RATE} and ${MAX_SAMPLE_RATE} Hz`)
+      }
+
+      const end = Math.min(body + chunkSize, data.length)
+      const frameCount = Math.floor((end - body) / (2 * channels))
+      const samples = new Float32Array(frameCount)
+
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0
+        for (let channel = 0; channel < channels; channel++) {
+          sum += view.getInt16(body + (frame * channels + channel) * 2, true) / 0x8000
+        }
+        samples[frame] = sum / channels
+      }
+      return { samples, sampleRate }
+    }
+
+    // Chunks are word-aligned
+    offset = body + chunkSize + (chunkSize % 2)
+  }
+
+  throw new Error("WAV file has no audio data")
+}
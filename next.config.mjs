@@ -9,6 +9,13 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Read at runtime rather than imported, so traced deployments need to be told to ship it
+    outputFileTracingIncludes: {
+      "/api/recommendations": ["./config/emotion-mappings.json"],
+      "/api/admin/emotion-mappings/**": ["./config/emotion-mappings.json"],
+    },
+  },
   // Suppress console errors in production
   logging: {
     fetches: {
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Face++ and DeepFace APIs, so the real provider code paths run without
+ * credentials or a Python sidecar.
+ *
+ *   FACEPLUS_API_URL=http://localhost:5050/faceplus/<scenario>
+ *   EMOTION_API_URL=http://localhost:5050/deepface/<scenario>
+ *
+ * Each scenario is a fixture file, fixtures/<provider>/<scenario>.json, holding
+ * { status, body, delay_ms? }. A delay longer than the provider timeout reproduces a timeout.
+ *
+ * MOCK_MODE=record proxies to the real services (MOCK_FACEPLUS_UPSTREAM, MOCK_DEEPFACE_UPSTREAM)
+ * and saves each response as the fixture for the scenario in the URL, so a captured quota
+ * error or multi-face response can be replayed offline afterwards.
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { createServer } from "node:http"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const PORT = Number(process.env.MOCK_PORT || 5050)
+const MODE = process.env.MOCK_MODE === "record" ? "record" : "replay"
+const FIXTURES_DIR = process.env.MOCK_FIXTURES_DIR || join(dirname(fileURLToPath(import.meta.url)), "fixtures")
+const UPSTREAMS = {
+  faceplus: process.env.MOCK_FACEPLUS_UPSTREAM || "https://api-us.faceplusplus.com",
+  deepface: process.env.MOCK_DEEPFACE_UPSTREAM || "http://localhost:5001",
+}
+
+// The endpoints each provider module calls, by method
+const ROUTES = {
+  faceplus: { "/facepp/v3/detect": ["POST"] },
+  deepface: { "/health": ["GET"], "/detect-emotion": ["POST"] },
+}
+
+const SCENARIO_PATTERN = /^[\w-]{1,64}$/
+
+function fixturePath(provider, scenario, endpoint) {
+  // DeepFace has two endpoints, so its health answer gets its own fixture: <scenario>.health.json
+  const suffix = endpoint === "/health" ? ".health" : ""
+  return join(FIXTURES_DIR, provider, `${scenario}${suffix}.json`)
+}
+
+async function loadFixture(provider, scenario, endpoint) {
+  try {
+    return JSON.parse(await readFile(fixturePath(provider, scenario, endpoint), "utf8"))
+  } catch (error) {
+    if (endpoint === "/health") {
+      // No dedicated health fixture: the sidecar is up
+      return { status: 200, body: { status: "ok" } }
+    }
+    return null
+  }
+}
+
+async function readBody(request) {
+  const chunks = []
+  for await (const chunk of request) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+async function record(provider, scenario, endpoint, request, body) {
+  const upstream = await fetch(`${UPSTREAMS[provider]}${endpoint}`, {
+    method: request.method,
+    headers: { "content-type": request.headers["content-type"] || "application/json" },
+    body: request.method === "GET" ? undefined : body,
+  })
+  const text = await upstream.text()
+  let parsed
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    parsed = text
+  }
+
+  const fixture = { status: upstream.status, body: parsed }
+  const path = fixturePath(provider, scenario, endpoint)
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`)
+  console.log(`💾 Recorded ${provider} ${endpoint} as "${scenario}" (HTTP ${upstream.status})`)
+  return fixture
+}
+
+function send(response, status, body) {
+  if (response.writableEnded || response.destroyed) return
+  const payload = typeof body === "string" ? body : JSON.stringify(body)
+  response.writeHead(status, { "content-type": typeof body === "string" ? "text/plain" : "application/json" })
+  response.end(payload)
+}
+
+const server = createServer(async (request, response) => {
+  // /<provider>/<scenario>/<endpoint>
+  const url = new URL(request.url || "/", `http://localhost:${PORT}`)
+  const [, provider, scenario, ...rest] = url.pathname.split("/")
+  const endpoint = `/${rest.join("/")}`
+  const methods = ROUTES[provider]?.[endpoint]
+
+  if (!methods || !SCENARIO_PATTERN.test(scenario || "")) {
+    return send(response, 404, { error: "Use /faceplus/<scenario>/facepp/v3/detect or /deepface/<scenario>/(health|detect-emotion)" })
+  }
+  if (!methods.includes(request.method)) {
+    // Any HTTP answer is enough for the Face++ ping, and it must never be recorded over a detect fixture
+    return send(response, 405, { error_message: "METHOD_NOT_ALLOWED" })
+  }
+
+  try {
+    const body = await readBody(request)
+    const fixture = MODE === "record"
+      ? await record(provider, scenario, endpoint, request, body)
+      : await loadFixture(provider, scenario, endpoint)
+
+    if (!fixture) {
+      return send(response, 404, { error: `No fixture ${provider}/${scenario}.json - record it or add it under ${FIXTURES_DIR}` })
+    }
+
+    console.log(`🔄 ${request.method} ${provider} ${endpoint} -> "${scenario}" (HTTP ${fixture.status}${fixture.delay_ms ? `, after ${fixture.delay_ms}ms` : ""})`)
+    if (fixture.delay_ms) {
+      await new Promise((resolve) => setTimeout(resolve, fixture.delay_ms))
+    }
+    send(response, fixture.status, fixture.body)
+  } catch (error) {
+    console.error(`❌ Mock ${provider} ${endpoint} failed:`, error)
+    send(response, 502, { error: error instanceof Error ? error.message : "Mock provider failed" })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`✅ Mock emotion providers (${MODE}) on http://localhost:${PORT}, fixtures in ${FIXTURES_DIR}`)
+})